@@ -27,6 +27,11 @@ const routes: Array<RouteRecordRaw> = [
         name: 'Tasks',
         component: () => import('../views/TasksView.vue')
       },
+      {
+        path: 'projects',
+        name: 'Projects',
+        component: () => import('../views/ProjectsView.vue')
+      },
       {
         path: 'achievements',
         name: 'Achievements',
@@ -73,43 +73,55 @@ class BrowserNotificationService {
    * @param {Notification} notification The notification to show
    */
   public showNotification(notification: Notification): void {
+    // Create notification title based on notification type
+    let title = 'TaskMaster';
+    switch (notification.type) {
+      case 'FRIEND_REQUEST':
+        title = 'New Friend Request';
+        break;
+      case 'FRIEND_REQUEST_ACCEPTED':
+        title = 'Friend Request Accepted';
+        break;
+      case 'ACHIEVEMENT_UNLOCKED':
+        title = 'Achievement Unlocked';
+        break;
+      case 'TASK_SHARED':
+        title = 'Task Shared With You';
+        break;
+      case 'TASK_COMPLETED':
+        title = 'Task Completed';
+        break;
+      case 'COMMENT_MENTION':
+        title = 'You Were Mentioned';
+        break;
+    }
+
+    this.showMessage(title, notification.message);
+  }
+
+  /**
+   * Show a browser notification with a title and a message
+   * @param {string} title The notification title
+   * @param {string} message The notification message
+   */
+  public showMessage(title: string, message: string): void {
     if (!this.notificationsSupported.value || !this.notificationsEnabled.value) {
       loggerService.debug('Browser notifications are not supported or not enabled');
       return;
     }
 
     try {
-      // Create notification title based on notification type
-      let title = 'TaskMaster';
-      switch (notification.type) {
-        case 'FRIEND_REQUEST':
-          title = 'New Friend Request';
-          break;
-        case 'FRIEND_REQUEST_ACCEPTED':
-          title = 'Friend Request Accepted';
-          break;
-        case 'ACHIEVEMENT_UNLOCKED':
-          title = 'Achievement Unlocked';
-          break;
-        case 'TASK_SHARED':
-          title = 'Task Shared With You';
-          break;
-        case 'TASK_COMPLETED':
-          title = 'Task Completed';
-          break;
-      }
-
-      loggerService.info(`Showing browser notification: ${title} - ${notification.message}`);
+      loggerService.info(`Showing browser notification: ${title} - ${message}`);
 
       if (this.isIosSafari.value) {
         // Custom notification implementation for iOS Safari
         loggerService.debug('Using custom iOS notification implementation');
-        this.showIosNotification(title, notification.message);
+        this.showIosNotification(title, message);
       } else {
         // Standard notification for other browsers
         loggerService.debug('Using standard browser notification API');
         const browserNotification = new window.Notification(title, {
-          body: notification.message,
+          body: message,
           icon: '/favicon.ico', // Use app favicon as notification icon
         });
 
@@ -0,0 +1,55 @@
+import apiService from './api.service';
+import {
+  type CommentDto,
+  type CreateCommentDto,
+  type UpdateCommentDto
+} from '../types/models';
+
+export const commentService = {
+  /**
+   * Get the comments of a task, oldest first
+   * @param taskId Task ID
+   * @returns Promise with an array of comments
+   */
+  getComments(taskId: string): Promise<CommentDto[]> {
+    return apiService.get<CommentDto[]>(`/tasks/${taskId}/comments`)
+      .then(response => response.data);
+  },
+
+  /**
+   * Add a comment to a task
+   * Mentioned users are notified by the server
+   * @param taskId Task ID
+   * @param commentData Comment data
+   * @returns Promise with the created comment
+   */
+  createComment(taskId: string, commentData: CreateCommentDto): Promise<CommentDto> {
+    return apiService.put<CommentDto>(`/tasks/${taskId}/comments/create`, commentData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Edit a comment, only allowed for its author
+   * @param taskId Task ID
+   * @param commentId Comment ID
+   * @param commentData Updated comment data
+   * @returns Promise with the updated comment
+   */
+  updateComment(taskId: string, commentId: string, commentData: UpdateCommentDto): Promise<CommentDto> {
+    return apiService.post<CommentDto>(`/tasks/${taskId}/comments/update/${commentId}`, commentData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Delete a comment, only allowed for its author
+   * @param taskId Task ID
+   * @param commentId Comment ID
+   * @returns Promise with void
+   */
+  deleteComment(taskId: string, commentId: string): Promise<void> {
+    return apiService.delete<void>(`/tasks/${taskId}/comments/delete/${commentId}`)
+      .then(() => {});
+  }
+};
+
+export default commentService;
@@ -0,0 +1,73 @@
+import apiService from './api.service';
+import {
+  type CreateProjectDto,
+  type ProjectDto,
+  type ShareTaskDto,
+  type UpdateProjectDto
+} from '../types/models';
+
+export const projectService = {
+  /**
+   * Get all projects of the authenticated user, including projects shared with them
+   * @returns Promise with an array of projects
+   */
+  getAllProjects(): Promise<ProjectDto[]> {
+    return apiService.get<ProjectDto[]>('/projects')
+      .then(response => response.data);
+  },
+
+  /**
+   * Create a new project
+   * @param projectData Project data
+   * @returns Promise with the created project
+   */
+  createProject(projectData: CreateProjectDto): Promise<ProjectDto> {
+    return apiService.put<ProjectDto>('/projects/create', projectData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Update a project
+   * @param id Project ID
+   * @param projectData Updated project data
+   * @returns Promise with the updated project
+   */
+  updateProject(id: string, projectData: UpdateProjectDto): Promise<ProjectDto> {
+    return apiService.post<ProjectDto>(`/projects/update/${id}`, projectData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Delete a project, its tasks are kept without a project
+   * @param id Project ID
+   * @returns Promise with void
+   */
+  deleteProject(id: string): Promise<void> {
+    return apiService.delete<void>(`/projects/delete/${id}`)
+      .then(() => {});
+  },
+
+  /**
+   * Share a project and all of its tasks with a user
+   * @param id Project ID
+   * @param shareData Share data containing username
+   * @returns Promise with the updated project
+   */
+  shareProject(id: string, shareData: ShareTaskDto): Promise<ProjectDto> {
+    return apiService.post<ProjectDto>(`/projects/${id}/share`, shareData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Unshare a project with a user
+   * @param id Project ID
+   * @param username Username to unshare with
+   * @returns Promise with the updated project
+   */
+  unshareProject(id: string, username: string): Promise<ProjectDto> {
+    return apiService.delete<ProjectDto>(`/projects/${id}/share/${username}`)
+      .then(response => response.data);
+  }
+};
+
+export default projectService;
@@ -0,0 +1,134 @@
+import { type TaskDto } from '../types/models';
+import { useAuthStore } from '../store/auth.store';
+import { useReminderStore } from '../store/reminder.store';
+import { MISSED_REMINDER_GRACE_MS, type ScheduledReminder, getReminderMessage, getScheduledReminders } from '../utils/reminders';
+import browserNotificationService from './browser-notification.service';
+import loggerService from './logger.service';
+
+// Longest single wait; timers are re-armed after it so clock changes and very long delays do not matter
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Service for showing due date reminders of tasks
+ *
+ * Only one timer runs, for the next reminder. Browsers delay or skip timers of
+ * sleeping tabs, so the reminders are also checked whenever the tab becomes visible.
+ */
+class ReminderService {
+  // The tasks to remind of, by ID
+  private tasks = new Map<string, TaskDto>();
+  private reminders: ScheduledReminder[] = [];
+  private timer: number | null = null;
+  private listening = false;
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      this.check();
+    }
+  };
+
+  /**
+   * Arm the reminders of all tasks, replacing the ones armed before
+   * @param tasks All tasks of the user
+   */
+  public scheduleReminders(tasks: TaskDto[]): void {
+    useReminderStore().loadPreferences();
+    this.tasks = new Map(tasks.map(task => [task.id, task]));
+
+    if (!this.listening) {
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+      this.listening = true;
+    }
+    this.rearm();
+  }
+
+  /**
+   * Re-arm the reminders of changed or new tasks
+   * The task list may only hold some of the tasks, so the other tasks keep their reminders.
+   * @param tasks The changed tasks
+   */
+  public updateTasks(tasks: TaskDto[]): void {
+    tasks.forEach(task => this.tasks.set(task.id, task));
+    this.rearm();
+  }
+
+  /**
+   * Drop the reminders of a deleted task
+   * @param taskId The ID of the deleted task
+   */
+  public removeTask(taskId: string): void {
+    if (this.tasks.delete(taskId)) {
+      this.rearm();
+    }
+  }
+
+  /**
+   * Stop all reminders, e.g. on logout
+   */
+  public stop(): void {
+    this.clearTimer();
+    this.tasks.clear();
+    this.reminders = [];
+    if (this.listening) {
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+      this.listening = false;
+    }
+  }
+
+  private rearm(): void {
+    // Nothing is armed before all tasks were loaded
+    if (!this.listening) return;
+    this.reminders = getScheduledReminders([...this.tasks.values()]);
+    this.check();
+  }
+
+  /**
+   * Show the reminders that are due and wait for the next one
+   */
+  private check(): void {
+    this.clearTimer();
+    const reminderStore = useReminderStore();
+    reminderStore.syncFired();
+
+    const now = Date.now();
+    let next: ScheduledReminder | undefined;
+    for (const reminder of this.reminders) {
+      // Reminders missed for longer than the grace period are never shown, so they are not
+      // remembered either; their fired entries may already have been forgotten
+      if (now - reminder.time > MISSED_REMINDER_GRACE_MS) continue;
+      if (reminderStore.hasFired(reminder.key)) continue;
+      if (reminder.time > now) {
+        next = reminder;
+        break;
+      }
+      // Marked before showing, so that a failing notification is not retried over and over
+      reminderStore.markFired(reminder.key, reminder.time);
+      this.show(reminder, now);
+    }
+
+    if (next) {
+      const delay = Math.min(next.time - now, MAX_TIMER_DELAY_MS);
+      this.timer = window.setTimeout(() => this.check(), delay);
+    }
+  }
+
+  private show(reminder: ScheduledReminder, now: number): void {
+    if (!useAuthStore().user?.notificationsEnabled) {
+      loggerService.debug(`Reminder for task ${reminder.task.id} not shown, notifications are disabled`);
+      return;
+    }
+    browserNotificationService.showMessage('Task Reminder', getReminderMessage(reminder.task, now));
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Create a singleton instance of the reminder service
+export const reminderService = new ReminderService();
+
+export default reminderService;
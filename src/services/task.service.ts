@@ -1,10 +1,14 @@
 import apiService from './api.service';
 import { 
+  type CalendarFeedDto,
   type CreateTaskDto,
+  type FocusedTimeDto,
   type ShareTaskDto,
+  type TaskActivityListDto,
   type TaskDto,
   type TaskListDto,
   type TimerUpdateDto,
+  type TrashSettingsDto,
   type UpdateTaskDto
 } from '../types/models';
 
@@ -20,6 +24,16 @@ export const taskService = {
       .then(response => response.data);
   },
 
+  /**
+   * Get the open tasks of the authenticated user, owned and shared, that have a due date or a reminder
+   * Used to arm reminders and track overdue tasks without loading every task
+   * @returns Promise with an array of tasks
+   */
+  getScheduledTasks(): Promise<TaskDto[]> {
+    return apiService.get<TaskDto[]>('/tasks/scheduled')
+      .then(response => response.data);
+  },
+
   /**
    * Get owned tasks for the authenticated user
    * @returns Promise with an array of owned tasks
@@ -43,10 +57,31 @@ export const taskService = {
    * @param query Search query
    * @param page Page number
    * @param size Page size
+   * @param signal Optional signal to cancel the request
+   * @param sort Sort parameters as 'field,direction', e.g. 'dueDate,asc'
    * @returns Promise with paginated task list
    */
-  searchTasks(query: string = '', page: number = 0, size: number = 10): Promise<TaskListDto> {
-    return apiService.get<TaskListDto>(`/tasks/search?query=${query}&page=${page}&size=${size}`)
+  searchTasks(
+    query: string = '',
+    page: number = 0,
+    size: number = 10,
+    signal?: AbortSignal,
+    sort: string[] = []
+  ): Promise<TaskListDto> {
+    const sortParams = sort.map(param => `&sort=${encodeURIComponent(param)}`).join('');
+    return apiService.get<TaskListDto>(`/tasks/search?query=${encodeURIComponent(query)}&page=${page}&size=${size}${sortParams}`, { signal })
+      .then(response => response.data);
+  },
+
+  /**
+   * Get the activity history of a task with pagination, newest first
+   * @param id Task ID
+   * @param page Page number
+   * @param size Page size
+   * @returns Promise with a page of activity entries
+   */
+  getTaskActivity(id: string, page: number = 0, size: number = 20): Promise<TaskActivityListDto> {
+    return apiService.get<TaskActivityListDto>(`/tasks/${id}/activity?page=${page}&size=${size}`)
       .then(response => response.data);
   },
 
@@ -82,7 +117,7 @@ export const taskService = {
   },
 
   /**
-   * Delete a task
+   * Permanently delete a task
    * @param id Task ID
    * @returns Promise with void
    */
@@ -91,6 +126,93 @@ export const taskService = {
       .then(() => {});
   },
 
+  /**
+   * Move a task to the trash
+   * @param id Task ID
+   * @returns Promise with the trashed task
+   */
+  trashTask(id: string): Promise<TaskDto> {
+    return apiService.post<TaskDto>(`/tasks/trash/${id}`)
+      .then(response => response.data);
+  },
+
+  /**
+   * Get the tasks in the trash
+   * @returns Promise with an array of trashed tasks
+   */
+  getTrashedTasks(): Promise<TaskDto[]> {
+    return apiService.get<TaskDto[]>('/tasks/trash')
+      .then(response => response.data);
+  },
+
+  /**
+   * Restore a task from the trash
+   * @param id Task ID
+   * @returns Promise with the restored task
+   */
+  restoreTask(id: string): Promise<TaskDto> {
+    return apiService.post<TaskDto>(`/tasks/restore/${id}`)
+      .then(response => response.data);
+  },
+
+  /**
+   * Permanently delete all tasks in the trash
+   * @returns Promise with void
+   */
+  emptyTrash(): Promise<void> {
+    return apiService.delete<void>('/tasks/trash/empty')
+      .then(() => {});
+  },
+
+  /**
+   * Get the trash settings of the authenticated user
+   * The server removes trashed tasks for good once the retention period has passed
+   * @returns Promise with the trash settings
+   */
+  getTrashSettings(): Promise<TrashSettingsDto> {
+    return apiService.get<TrashSettingsDto>('/tasks/trash/settings')
+      .then(response => response.data);
+  },
+
+  /**
+   * Update the trash settings of the authenticated user
+   * @param settings The new trash settings
+   * @returns Promise with the saved trash settings
+   */
+  updateTrashSettings(settings: TrashSettingsDto): Promise<TrashSettingsDto> {
+    return apiService.put<TrashSettingsDto>('/tasks/trash/settings', settings)
+      .then(response => response.data);
+  },
+
+  /**
+   * Move a task to the archive
+   * @param id Task ID
+   * @returns Promise with the archived task
+   */
+  archiveTask(id: string): Promise<TaskDto> {
+    return apiService.post<TaskDto>(`/tasks/archive/${id}`)
+      .then(response => response.data);
+  },
+
+  /**
+   * Move a task out of the archive
+   * @param id Task ID
+   * @returns Promise with the unarchived task
+   */
+  unarchiveTask(id: string): Promise<TaskDto> {
+    return apiService.post<TaskDto>(`/tasks/unarchive/${id}`)
+      .then(response => response.data);
+  },
+
+  /**
+   * Get the archived tasks
+   * @returns Promise with an array of archived tasks
+   */
+  getArchivedTasks(): Promise<TaskDto[]> {
+    return apiService.get<TaskDto[]>('/tasks/archived')
+      .then(response => response.data);
+  },
+
   /**
    * Get shared tasks
    * @returns Promise with an array of shared tasks
@@ -160,6 +282,46 @@ export const taskService = {
   resetTimer(id: string): Promise<TaskDto> {
     return apiService.post<TaskDto>(`/tasks/${id}/timer/reset`)
       .then(response => response.data);
+  },
+
+  /**
+   * Add the time of a finished timer run to the focused time of a task
+   * @param id Task ID
+   * @param focusData The focused time of the run
+   * @returns Promise with the updated task
+   */
+  recordFocusedTime(id: string, focusData: FocusedTimeDto): Promise<TaskDto> {
+    return apiService.post<TaskDto>(`/tasks/${id}/timer/focus`, focusData)
+      .then(response => response.data);
+  },
+
+  /**
+   * Get the calendar feed of the authenticated user
+   * The server builds the feed from the current tasks whenever a calendar app fetches it
+   * @returns Promise with the feed, its URL is null while the feed is turned off
+   */
+  getCalendarFeed(): Promise<CalendarFeedDto> {
+    return apiService.get<CalendarFeedDto>('/tasks/calendar-feed')
+      .then(response => response.data);
+  },
+
+  /**
+   * Turn on the calendar feed with a new secret link; an earlier link stops working
+   * @param component Whether tasks are published as to-dos or events
+   * @returns Promise with the feed and its new URL
+   */
+  createCalendarFeed(component: CalendarFeedDto['component']): Promise<CalendarFeedDto> {
+    return apiService.post<CalendarFeedDto>('/tasks/calendar-feed', { component })
+      .then(response => response.data);
+  },
+
+  /**
+   * Turn off the calendar feed; its link stops working
+   * @returns Promise that resolves when the feed is turned off
+   */
+  deleteCalendarFeed(): Promise<void> {
+    return apiService.delete<void>('/tasks/calendar-feed')
+      .then(() => {});
   }
 };
 
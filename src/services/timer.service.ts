@@ -2,6 +2,15 @@ import { ref } from 'vue';
 import { type TaskDto, type TimerUpdateDto } from '../types/models';
 import websocketService from './websocket.service';
 import taskService from './task.service';
+import { useAuthStore } from '../store/auth.store';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+// Shorter runs, e.g. a start followed by an immediate pause, are not recorded
+const MIN_RECORDED_RUN_MILLIS = 1000;
+
+// Runs in progress are kept in localStorage under the user's name, so reloading or closing
+// the page does not lose their focused time and another account does not pick them up
+const runStartsStorage = createUserStorageEntry<Record<string, number>>('timerRunStarts', () => ({}));
 
 /**
  * Service for managing task timers
@@ -19,6 +28,18 @@ class TimerService {
   // Background timer interval for updating timers in the background
   private backgroundTimerInterval: number | null = null;
 
+  // Remaining time at the start of the runs started from this app, by task ID
+  private runStarts = ref<Map<string, number>>(new Map());
+
+  // Username the runs in progress were loaded for
+  private runStartsUser = { loadedFor: null as string | null };
+
+  // Focused time of tasks as last reported by the server, by task ID
+  private focusedTimes = ref<Map<string, number>>(new Map());
+
+  // Tasks whose timer is being paused or reset from this app
+  private stoppingTimers = new Set<string>();
+
   constructor() {
     // Start the background timer interval when the service is created
     this.startBackgroundTimerInterval();
@@ -51,11 +72,26 @@ class TimerService {
     return timerInfo ? timerInfo.remainingTimeMillis : 0;
   }
 
+  /**
+   * Get the time focused on a task, including the run in progress
+   * @param task The task
+   * @returns The focused time in milliseconds
+   */
+  public getFocusedTime(task: TaskDto): number {
+    // Focused time only grows, so the larger value is the newer one
+    const recorded = Math.max(task.focusedTimeMillis || 0, this.focusedTimes.value.get(task.id) || 0);
+    const runStart = this.runStarts.value.get(task.id);
+    const running = runStart !== undefined ? Math.max(0, runStart - this.getTaskRemainingTime(task.id)) : 0;
+    return recorded + running;
+  }
+
   /**
    * Initialize timers from a list of tasks
    * @param tasks The list of tasks to initialize timers from
    */
   public initializeTimers(tasks: TaskDto[]): void {
+    this.loadRunStarts();
+
     // Update activeTimers map with any tasks that have active timers
     tasks.forEach(task => {
       if (task.pomodoroTimeMillis) {
@@ -66,6 +102,13 @@ class TimerService {
       }
     });
 
+    // Runs started before the page was reloaded: running ones go on, ones stopped meanwhile are recorded now
+    tasks.forEach(task => {
+      if (this.runStarts.value.has(task.id) && !task.timerActive) {
+        this.finishRun(task.id, task.remainingTimeMillis ?? task.pomodoroTimeMillis ?? 0);
+      }
+    });
+
     // Subscribe to active timers
     const activeTimerTasks = tasks.filter(task => task.timerActive && task.pomodoroTimeMillis);
     console.log(`Found ${activeTimerTasks.length} active timers to subscribe to`);
@@ -123,6 +166,11 @@ class TimerService {
         timerActive: timerUpdate.timerActive
       });
 
+      // A run started here may have been stopped somewhere else
+      if (!timerUpdate.timerActive && !this.stoppingTimers.has(taskId)) {
+        this.finishRun(taskId, timerUpdate.remainingTimeMillis);
+      }
+
       // Call the callback if provided
       if (callback) {
         callback(timerUpdate);
@@ -209,10 +257,14 @@ class TimerService {
 
     // Update the active timers map
     if (updatedTask.pomodoroTimeMillis) {
+      const remainingTimeMillis = updatedTask.remainingTimeMillis || updatedTask.pomodoroTimeMillis;
       this.activeTimers.value.set(taskId, {
-        remainingTimeMillis: updatedTask.remainingTimeMillis || updatedTask.pomodoroTimeMillis,
+        remainingTimeMillis,
         timerActive: true
       });
+      this.loadRunStarts();
+      this.runStarts.value.set(taskId, remainingTimeMillis);
+      this.saveRunStarts();
     }
 
     // Subscribe to timer updates when starting a timer
@@ -227,12 +279,19 @@ class TimerService {
    * @returns Promise with the updated task
    */
   public async pauseTimer(taskId: string): Promise<TaskDto> {
-    const updatedTask = await taskService.pauseTimer(taskId);
+    let updatedTask: TaskDto;
+    this.stoppingTimers.add(taskId);
+    try {
+      updatedTask = await taskService.pauseTimer(taskId);
+    } finally {
+      this.stoppingTimers.delete(taskId);
+    }
+    const remainingTimeMillis = updatedTask.remainingTimeMillis || this.getTaskRemainingTime(taskId);
 
     // Update the active timers map
     if (updatedTask.pomodoroTimeMillis) {
       this.activeTimers.value.set(taskId, {
-        remainingTimeMillis: updatedTask.remainingTimeMillis || this.getTaskRemainingTime(taskId),
+        remainingTimeMillis,
         timerActive: false
       });
     }
@@ -240,7 +299,7 @@ class TimerService {
     // Keep the subscription active even when pausing a timer
     // This ensures we continue to receive updates if the timer is started again (by us or another user)
 
-    return updatedTask;
+    return (await this.finishRun(taskId, remainingTimeMillis)) || updatedTask;
   }
 
   /**
@@ -249,7 +308,15 @@ class TimerService {
    * @returns Promise with the updated task
    */
   public async resetTimer(taskId: string): Promise<TaskDto> {
-    const updatedTask = await taskService.resetTimer(taskId);
+    // The time focused before the reset still counts
+    const remainingBeforeReset = this.getTaskRemainingTime(taskId);
+    let updatedTask: TaskDto;
+    this.stoppingTimers.add(taskId);
+    try {
+      updatedTask = await taskService.resetTimer(taskId);
+    } finally {
+      this.stoppingTimers.delete(taskId);
+    }
 
     // Reset the countdown to the full pomodoro time
     if (updatedTask.pomodoroTimeMillis) {
@@ -263,7 +330,50 @@ class TimerService {
     // Keep the subscription active even when resetting a timer
     // This ensures we continue to receive updates if the timer is started again (by us or another user)
 
-    return updatedTask;
+    return (await this.finishRun(taskId, remainingBeforeReset)) || updatedTask;
+  }
+
+  /**
+   * Record the focused time of a run started from this app
+   * Runs started elsewhere are recorded by the app that started them.
+   * @param taskId The ID of the task
+   * @param remainingTimeMillis The remaining time at the end of the run
+   * @returns Promise with the updated task, or null if there was nothing to record
+   */
+  private async finishRun(taskId: string, remainingTimeMillis: number): Promise<TaskDto | null> {
+    this.loadRunStarts();
+    const runStart = this.runStarts.value.get(taskId);
+    if (runStart === undefined) return null;
+    this.runStarts.value.delete(taskId);
+    this.saveRunStarts();
+
+    const focusedTimeMillis = runStart - remainingTimeMillis;
+    if (focusedTimeMillis < MIN_RECORDED_RUN_MILLIS) return null;
+
+    try {
+      const updatedTask = await taskService.recordFocusedTime(taskId, { focusedTimeMillis });
+      this.focusedTimes.value.set(taskId, updatedTask.focusedTimeMillis || 0);
+      return updatedTask;
+    } catch (error) {
+      console.error('Failed to record focused time:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load the runs in progress of the current user; does nothing if they are already loaded
+   */
+  private loadRunStarts(): void {
+    const username = useAuthStore().user?.username || null;
+    if (!switchLoadedUser(this.runStartsUser, username)) return;
+    this.runStarts.value = new Map(Object.entries(runStartsStorage.read(username)));
+  }
+
+  /**
+   * Persist the runs in progress for the user they were loaded for
+   */
+  private saveRunStarts(): void {
+    runStartsStorage.write(this.runStartsUser.loadedFor, Object.fromEntries(this.runStarts.value));
   }
 
   /**
@@ -310,6 +420,7 @@ class TimerService {
             taskService.pauseTimer(taskId).catch(error => {
               console.error('Failed to pause timer at completion:', error);
             });
+            this.finishRun(taskId, 0);
           }
         }
       });
@@ -2,7 +2,7 @@ import { ref } from 'vue';
 import SockJS from 'sockjs-client';
 import { Client } from '@stomp/stompjs';
 import type { IMessage } from '@stomp/stompjs';
-import type { Notification, NotificationDto, TimerUpdateDto } from '../types/models';
+import type { CommentEventDto, Notification, NotificationDto, TimerUpdateDto } from '../types/models';
 import { useNotificationStore } from '../store/notification.store';
 import loggerService from './logger.service';
 
@@ -11,7 +11,7 @@ import loggerService from './logger.service';
 const SOCKET_BASE_URL = import.meta.env.VITE_API_BASE_URL_SOCKET || 'http://localhost:8080';
 
 /**
- * WebSocket service for handling real-time notifications and timer updates
+ * WebSocket service for handling real-time notifications, timer updates and comments
  */
 class WebSocketService {
   private stompClient: Client | null = null;
@@ -20,6 +20,7 @@ class WebSocketService {
   private reconnectTimeout: number | null = null;
   private listeners: Map<string, ((data: any) => void)[]> = new Map();
   private activeTimerSubscriptions: Map<string, { unsubscribe: () => void }> = new Map();
+  private activeCommentSubscriptions: Map<string, { unsubscribe: () => void }> = new Map();
   private pendingNotificationSubscription: boolean = false;
 
   // Reactive state for connection status
@@ -90,6 +91,7 @@ class WebSocketService {
       // Unsubscribe from all active timer subscriptions
       loggerService.debug('Unsubscribing from all active timer subscriptions');
       this.unsubscribeFromAllTimers();
+      this.unsubscribeFromAllComments();
 
       // Deactivate the STOMP client
       loggerService.debug('Deactivating STOMP client');
@@ -253,6 +255,79 @@ class WebSocketService {
     this.activeTimerSubscriptions.clear();
   }
 
+  /**
+   * Subscribe to comment changes of a specific task
+   * @param taskId The ID of the task to subscribe to comment changes for
+   * @param callback The callback function to call when a comment is created, updated or deleted
+   * @returns An object with an unsubscribe method
+   */
+  public subscribeToTaskComments(taskId: string, callback: (event: CommentEventDto) => void): { unsubscribe: () => void } {
+    loggerService.debug(`Subscribing to comments for task: ${taskId}`);
+
+    if (!this.stompClient || !this.stompClient.connected) {
+      loggerService.error('STOMP client is not connected, cannot subscribe to comments');
+      return { unsubscribe: () => {
+        loggerService.debug('Dummy unsubscribe called for non-existent comment subscription');
+      } };
+    }
+
+    // Check if already subscribed to this task's comments
+    if (this.activeCommentSubscriptions.has(taskId)) {
+      loggerService.debug(`Already subscribed to comments for task: ${taskId}, returning existing subscription`);
+      return this.activeCommentSubscriptions.get(taskId)!;
+    }
+
+    loggerService.debug(`Creating new subscription for task comments: ${taskId}`);
+    // Subscribe to the task-specific comment channel
+    const subscription = this.stompClient.subscribe(`/topic/task/${taskId}/comments`, (message: IMessage) => {
+      loggerService.debug(`Received comment event for task: ${taskId}`);
+      try {
+        const event = JSON.parse(message.body) as CommentEventDto;
+        loggerService.debug(`Comment event details: type=${event.type}, commentId=${event.comment.id}`);
+        callback(event);
+      } catch (error) {
+        loggerService.error(`Failed to parse comment event for task ${taskId}:`, error);
+      }
+    });
+
+    // Create an object with an unsubscribe method
+    const unsubscribeObj = {
+      unsubscribe: () => {
+        loggerService.debug(`Unsubscribing from comments for task: ${taskId}`);
+        subscription.unsubscribe();
+        this.activeCommentSubscriptions.delete(taskId);
+        loggerService.debug(`Successfully unsubscribed from comments for task: ${taskId}`);
+      }
+    };
+
+    // Store the subscription
+    this.activeCommentSubscriptions.set(taskId, unsubscribeObj);
+    loggerService.info(`Successfully subscribed to comments for task: ${taskId}`);
+
+    return unsubscribeObj;
+  }
+
+  /**
+   * Unsubscribe from comment changes of a specific task
+   * @param taskId The ID of the task to unsubscribe from comment changes for
+   */
+  public unsubscribeFromTaskComments(taskId: string): void {
+    const subscription = this.activeCommentSubscriptions.get(taskId);
+    if (subscription) {
+      subscription.unsubscribe();
+    }
+  }
+
+  /**
+   * Unsubscribe from all active comment subscriptions
+   */
+  public unsubscribeFromAllComments(): void {
+    this.activeCommentSubscriptions.forEach(subscription => {
+      subscription.unsubscribe();
+    });
+    this.activeCommentSubscriptions.clear();
+  }
+
   /**
    * Add an event listener for a specific event type
    */
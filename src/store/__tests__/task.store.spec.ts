@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { type CreateTaskDto, type TaskDto, type UpdateTaskDto } from '../../types/models';
+import taskService from '../../services/task.service';
+import { useTaskStore } from '../task.store';
+
+vi.mock('../../services/task.service', () => ({
+  default: {
+    createTask: vi.fn(),
+    updateTask: vi.fn(),
+    updateTimer: vi.fn(),
+    recordFocusedTime: vi.fn()
+  }
+}));
+vi.mock('../../services/reminder.service', () => ({ default: {} }));
+vi.mock('../auth.store', () => ({ useAuthStore: () => ({ user: null }) }));
+
+const service = vi.mocked(taskService);
+
+const serverTask = (id: string, data: Partial<TaskDto>): TaskDto => ({
+  id,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  name: '',
+  description: '',
+  dueDate: '',
+  urgency: 'MEDIUM',
+  completed: false,
+  pomodoroTimeMillis: 25 * 60 * 1000,
+  ...data
+});
+
+describe('importTasks', () => {
+  let nextId: number;
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+    nextId = 1;
+    service.createTask.mockImplementation(async (data: CreateTaskDto) => serverTask(`new-${nextId++}`, data));
+    service.updateTask.mockImplementation(async (id: string, data: UpdateTaskDto) => serverTask(id, data));
+    service.updateTimer.mockImplementation(async (id: string) => serverTask(id, {}));
+    service.recordFocusedTime.mockImplementation(async (id: string) => serverTask(id, {}));
+  });
+
+  it('restores dependencies with the new IDs, the timer, the focused time and the completion', async () => {
+    const store = useTaskStore();
+    const results = await store.importTasks([
+      { name: 'Blocked', sourceId: 'b', blockedBy: ['a'], completed: true, pomodoroTimeMillis: 50 * 60 * 1000, focusedTimeMillis: 60000 },
+      { name: 'Blocker', sourceId: 'a' }
+    ]);
+
+    expect(results).toEqual([{ status: 'created', message: null }, { status: 'created', message: null }]);
+    expect(service.createTask.mock.calls.map(([data]) => data)).toEqual([{ name: 'Blocked' }, { name: 'Blocker' }]);
+    expect(service.updateTask).toHaveBeenCalledWith('new-1', { blockedBy: ['new-2'] });
+    expect(service.updateTimer).toHaveBeenCalledWith('new-1', { remainingTimeMillis: 50 * 60 * 1000, timerActive: false });
+    expect(service.recordFocusedTime).toHaveBeenCalledWith('new-1', { focusedTimeMillis: 60000 });
+    expect(service.updateTask).toHaveBeenCalledWith('new-1', { completed: true });
+  });
+
+  it('does not change the timer when the pomodoro time is the default', async () => {
+    await useTaskStore().importTasks([{ name: 'Task', pomodoroTimeMillis: 25 * 60 * 1000 }]);
+    expect(service.updateTimer).not.toHaveBeenCalled();
+  });
+
+  it('reports a task whose later step failed as incomplete, not as failed', async () => {
+    service.updateTask.mockRejectedValueOnce({ response: { data: { message: 'Server error' } } });
+    const store = useTaskStore();
+    const results = await store.importTasks([{ name: 'Done', completed: true }]);
+
+    expect(results).toEqual([{ status: 'incomplete', message: 'Created, but it could not be completed: Server error' }]);
+    expect(store.tasks.map(task => task.name)).toEqual(['Done']);
+    expect(store.error).toBe('1 of 1 tasks were imported incompletely');
+  });
+
+  it('reports a task whose blocker failed as incomplete', async () => {
+    service.createTask.mockImplementationOnce(async () => { throw new Error('Invalid task'); });
+    const results = await useTaskStore().importTasks([
+      { name: 'Blocker', sourceId: 'a' },
+      { name: 'Blocked', sourceId: 'b', blockedBy: ['a'] }
+    ]);
+
+    expect(results).toEqual([
+      { status: 'failed', message: 'Invalid task' },
+      { status: 'incomplete', message: 'Created without 1 dependency on tasks that were not imported' }
+    ]);
+    expect(service.updateTask).not.toHaveBeenCalled();
+  });
+
+  it('records the created tasks as one step that can be undone', async () => {
+    const store = useTaskStore();
+    await store.importTasks([{ name: 'One' }, { name: 'Two' }]);
+    expect(store.lastCommand?.label).toBe('2 tasks imported');
+  });
+});
+
+describe('updateTasks', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+    service.updateTask.mockImplementation(async (id: string, data: UpdateTaskDto) => {
+      if (id === 'broken') throw new Error('Server error');
+      return serverTask(id, data);
+    });
+  });
+
+  it('records the updates as one step that can be undone', async () => {
+    const store = useTaskStore();
+    store.tasks = [serverTask('a', { tags: ['old'] }), serverTask('b', { tags: ['old', 'work'] })];
+
+    const result = await store.updateTasks([
+      { id: 'a', update: { tags: ['new'] } },
+      { id: 'b', update: { tags: ['new', 'work'] } }
+    ], 'Tag "old" renamed to "new"');
+
+    expect(result).toEqual({ succeeded: ['a', 'b'], failed: [] });
+    expect(store.undoStack).toHaveLength(1);
+    expect(store.lastCommand).toMatchObject({ type: 'batch', label: 'Tag "old" renamed to "new"' });
+    expect(store.lastCommand?.type === 'batch' && store.lastCommand.commands).toHaveLength(2);
+  });
+
+  it('reports failed tasks and still records the others', async () => {
+    const store = useTaskStore();
+    store.tasks = [serverTask('a', {}), serverTask('broken', {})];
+
+    const result = await store.updateTasks([
+      { id: 'a', update: { tags: ['new'] } },
+      { id: 'broken', update: { tags: ['new'] } }
+    ], 'Tag "old" renamed to "new"');
+
+    expect(result).toEqual({ succeeded: ['a'], failed: ['broken'] });
+    expect(store.undoStack).toHaveLength(1);
+  });
+});
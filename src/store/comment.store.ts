@@ -0,0 +1,185 @@
+import { defineStore } from 'pinia';
+import commentService from '../services/comment.service';
+import websocketService from '../services/websocket.service';
+import {
+  type CommentDto,
+  type CommentEventDto,
+  type CreateCommentDto,
+  type UpdateCommentDto
+} from '../types/models';
+
+/**
+ * Interface representing the state of the comment store
+ */
+interface CommentState {
+  /** Loaded comments by task ID, oldest first */
+  commentsByTask: Record<string, CommentDto[]>;
+  /** Flag indicating if a comment operation is in progress */
+  loading: boolean;
+  /** Error message from the last failed operation or null if no error */
+  error: string | null;
+}
+
+// Live subscriptions by task ID
+const subscriptions = new Map<string, { unsubscribe: () => void }>();
+
+// Helper function to handle API calls with loading and error states
+async function handleApiCall<T>(
+  storeInstance: any,
+  apiCall: () => Promise<T>
+): Promise<T> {
+  storeInstance.loading = true;
+  storeInstance.error = null;
+
+  try {
+    return await apiCall();
+  } catch (error: any) {
+    storeInstance.error = error.response?.data?.message || 'An error occurred';
+    throw error;
+  } finally {
+    storeInstance.loading = false;
+  }
+}
+
+/**
+ * Comment store for the comment threads of shared tasks
+ *
+ * Comments of a task are loaded when its thread is opened and kept up to date
+ * through a per-task WebSocket subscription while the thread is watched.
+ */
+export const useCommentStore = defineStore('comment', {
+  state: (): CommentState => ({
+    commentsByTask: {},
+    loading: false,
+    error: null
+  }),
+
+  getters: {
+    /**
+     * Gets the loaded comments of a task
+     * @returns {Function} Function taking a task ID and returning its comments, oldest first
+     */
+    getComments: (state) => (taskId: string): CommentDto[] => state.commentsByTask[taskId] || []
+  },
+
+  actions: {
+    /**
+     * Loads the comments of a task
+     * @param {string} taskId - The ID of the task
+     * @returns {Promise<CommentDto[]>} The comments
+     */
+    async fetchComments(taskId: string) {
+      return handleApiCall(this, async () => {
+        const comments = await commentService.getComments(taskId);
+        this.commentsByTask[taskId] = comments;
+        return comments;
+      });
+    },
+
+    /**
+     * Adds a comment to a task
+     * @param {string} taskId - The ID of the task
+     * @param {CreateCommentDto} commentData - The comment and the mentioned users
+     * @returns {Promise<CommentDto>} The created comment
+     */
+    async addComment(taskId: string, commentData: CreateCommentDto) {
+      return handleApiCall(this, async () => {
+        const comment = await commentService.createComment(taskId, commentData);
+        this.upsertComment(taskId, comment);
+        return comment;
+      });
+    },
+
+    /**
+     * Edits a comment
+     * @param {string} taskId - The ID of the task
+     * @param {string} commentId - The ID of the comment
+     * @param {UpdateCommentDto} commentData - The new text and the mentioned users
+     * @returns {Promise<CommentDto>} The updated comment
+     */
+    async updateComment(taskId: string, commentId: string, commentData: UpdateCommentDto) {
+      return handleApiCall(this, async () => {
+        const comment = await commentService.updateComment(taskId, commentId, commentData);
+        this.upsertComment(taskId, comment);
+        return comment;
+      });
+    },
+
+    /**
+     * Deletes a comment
+     * @param {string} taskId - The ID of the task
+     * @param {string} commentId - The ID of the comment
+     */
+    async deleteComment(taskId: string, commentId: string) {
+      return handleApiCall(this, async () => {
+        await commentService.deleteComment(taskId, commentId);
+        this.removeComment(taskId, commentId);
+      });
+    },
+
+    /**
+     * Starts receiving comment changes of a task
+     * Also subscribes again after the WebSocket reconnected, as subscriptions do not survive a reconnect
+     * @param {string} taskId - The ID of the task
+     */
+    watchComments(taskId: string) {
+      if (subscriptions.has(taskId)) return;
+
+      const subscribe = () => websocketService.subscribeToTaskComments(taskId, (event: CommentEventDto) => {
+        this.applyCommentEvent(taskId, event);
+      });
+      const onConnection = ({ connected }: { connected: boolean }) => {
+        if (connected) {
+          websocketService.unsubscribeFromTaskComments(taskId);
+          subscribe();
+          // Comments may have changed while disconnected
+          this.fetchComments(taskId).catch(() => {});
+        }
+      };
+
+      subscribe();
+      websocketService.addEventListener('connection', onConnection);
+      subscriptions.set(taskId, {
+        unsubscribe: () => {
+          websocketService.removeEventListener('connection', onConnection);
+          websocketService.unsubscribeFromTaskComments(taskId);
+        }
+      });
+    },
+
+    /**
+     * Stops receiving comment changes of a task
+     * @param {string} taskId - The ID of the task
+     */
+    unwatchComments(taskId: string) {
+      subscriptions.get(taskId)?.unsubscribe();
+      subscriptions.delete(taskId);
+    },
+
+    /**
+     * Applies a comment change received over the WebSocket
+     * @param {string} taskId - The ID of the task
+     * @param {CommentEventDto} event - The change
+     */
+    applyCommentEvent(taskId: string, event: CommentEventDto) {
+      if (event.type === 'DELETED') {
+        this.removeComment(taskId, event.comment.id);
+      } else {
+        this.upsertComment(taskId, event.comment);
+      }
+    },
+
+    // Own comments arrive both as the response and as an event, so they are merged by ID
+    upsertComment(taskId: string, comment: CommentDto) {
+      const comments = this.commentsByTask[taskId] || [];
+      const index = comments.findIndex(c => c.id === comment.id);
+      this.commentsByTask[taskId] = index === -1
+        ? [...comments, comment].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        : comments.map(c => c.id === comment.id ? comment : c);
+    },
+
+    removeComment(taskId: string, commentId: string) {
+      this.commentsByTask[taskId] = (this.commentsByTask[taskId] || []).filter(c => c.id !== commentId);
+    }
+  }
+});
@@ -0,0 +1,167 @@
+import { defineStore } from 'pinia';
+import taskService from '../services/task.service';
+import { type TaskDto } from '../types/models';
+import { useAuthStore } from './auth.store';
+import { useTaskStore } from './task.store';
+import { getOverdueDays, isOverdue, raiseUrgency } from '../utils/overdue';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * Settings of the automatic urgency escalation of overdue tasks
+ */
+export interface EscalationSettings {
+  enabled: boolean;
+  /** Urgency is raised one step for every this many days a task is overdue */
+  days: number;
+}
+
+/**
+ * Interface representing the state of the overdue store
+ */
+interface OverdueState {
+  /** Open tasks with a due date, by ID; kept apart from the task list, which may only hold a page of tasks */
+  dueTasks: Record<string, TaskDto>;
+  /** Whether all tasks of the user were tracked, escalation waits for it */
+  allTracked: boolean;
+  escalating: boolean;
+  /** Time the overdue state was last checked at */
+  now: number;
+  escalation: EscalationSettings;
+  /** Escalation steps already applied, by task ID */
+  escalated: Record<string, number>;
+  /** Username the preferences were loaded for */
+  loadedFor: string | null;
+}
+
+const DEFAULT_ESCALATION: EscalationSettings = { enabled: false, days: 2 };
+
+const settingsStorage = createUserStorageEntry<Partial<EscalationSettings>>('overdueEscalation', () => ({}));
+const escalatedStorage = createUserStorageEntry<Record<string, number>>('escalatedTasks', () => ({}));
+
+/**
+ * Overdue store for the overdue tasks of the user and the urgency escalation of them
+ *
+ * The escalation settings and the escalations already applied are persisted in
+ * localStorage under the current user's name.
+ */
+export const useOverdueStore = defineStore('overdue', {
+  state: (): OverdueState => ({
+    dueTasks: {},
+    allTracked: false,
+    escalating: false,
+    now: Date.now(),
+    escalation: { ...DEFAULT_ESCALATION },
+    escalated: {},
+    loadedFor: null
+  }),
+
+  getters: {
+    /**
+     * Gets the overdue tasks, the longest overdue first
+     * @returns {TaskDto[]} The overdue tasks
+     */
+    getOverdueTasks: (state): TaskDto[] => Object.values(state.dueTasks)
+      .filter(task => isOverdue(task, new Date(state.now)))
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()),
+
+    /**
+     * Gets the number of overdue tasks
+     * @returns {number} The number of overdue tasks
+     */
+    overdueCount(): number {
+      return this.getOverdueTasks.length;
+    }
+  },
+
+  actions: {
+    /**
+     * Loads the escalation preferences of the current user
+     * Does nothing if they are already loaded
+     */
+    loadPreferences() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+
+      this.escalation = { ...DEFAULT_ESCALATION, ...settingsStorage.read(this.loadedFor) };
+      this.escalated = escalatedStorage.read(this.loadedFor);
+    },
+
+    /**
+     * Changes the escalation settings and applies them right away
+     * @param {EscalationSettings} escalation - The new settings
+     */
+    async setEscalation(escalation: EscalationSettings) {
+      this.escalation = { enabled: escalation.enabled, days: Math.max(1, Math.round(escalation.days) || 1) };
+      settingsStorage.write(this.loadedFor, this.escalation);
+      await this.escalateOverdueTasks();
+    },
+
+    /**
+     * Keeps track of the due dates of tasks
+     * @param {TaskDto[]} tasks - Loaded or changed tasks
+     * @param {boolean} replace - True if the tasks are all tasks of the user
+     */
+    trackTasks(tasks: TaskDto[], replace = false) {
+      const dueTasks = replace ? {} : { ...this.dueTasks };
+      tasks.forEach(task => {
+        if (!task.completed && task.dueDate) {
+          dueTasks[task.id] = task;
+        } else {
+          delete dueTasks[task.id];
+        }
+      });
+      this.dueTasks = dueTasks;
+      this.allTracked = this.allTracked || replace;
+    },
+
+    /**
+     * Stops tracking a deleted task
+     * @param {string} id - The task ID
+     */
+    untrackTask(id: string) {
+      delete this.dueTasks[id];
+    },
+
+    /**
+     * Re-checks which tasks are overdue and escalates them if enabled
+     */
+    async refresh() {
+      this.now = Date.now();
+      await this.escalateOverdueTasks();
+    },
+
+    /**
+     * Raises the urgency of tasks one step for every full period they are overdue
+     * Each step is only applied once, so lowering the urgency by hand sticks until the next period has passed.
+     * Tasks shared with the user are left alone.
+     */
+    async escalateOverdueTasks() {
+      if (!this.allTracked || this.escalating) return;
+      this.loadPreferences();
+      this.escalating = true;
+      const now = new Date(this.now);
+      const escalated: Record<string, number> = {};
+
+      for (const task of this.getOverdueTasks) {
+        const applied = this.escalated[task.id] || 0;
+        const due = this.escalation.enabled ? Math.floor(getOverdueDays(task, now) / this.escalation.days) : applied;
+        escalated[task.id] = Math.max(applied, due);
+
+        if (due <= applied || task.owner === false || task.urgency === 'HIGH') continue;
+        try {
+          // Not an undoable change of the user, so the store's update action is not used
+          const updatedTask = await taskService.updateTask(task.id, { urgency: raiseUrgency(task.urgency, due - applied) });
+          useTaskStore().updateTaskInStore(task.id, updatedTask);
+          this.trackTasks([updatedTask]);
+        } catch (error) {
+          console.error('Failed to escalate overdue task:', error);
+          escalated[task.id] = applied;
+        }
+      }
+
+      // Tasks that are no longer overdue start over
+      this.escalated = escalated;
+      this.escalating = false;
+      escalatedStorage.write(this.loadedFor, this.escalated);
+    }
+  }
+});
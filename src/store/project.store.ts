@@ -0,0 +1,159 @@
+import { defineStore } from 'pinia';
+import projectService from '../services/project.service';
+import { type CreateProjectDto, type ProjectDto, type UpdateProjectDto } from '../types/models';
+import { useTaskStore } from './task.store';
+
+interface ProjectState {
+  projects: ProjectDto[];
+  loading: boolean;
+  error: string | null;
+}
+
+export interface ProjectSummary {
+  total: number;
+  completed: number;
+  open: number;
+}
+
+export const useProjectStore = defineStore('project', {
+  state: (): ProjectState => ({
+    projects: [],
+    loading: false,
+    error: null
+  }),
+
+  getters: {
+    getProjects: (state) => state.projects,
+    getActiveProjects: (state) => state.projects.filter(project => !project.archived),
+    getArchivedProjects: (state) => state.projects.filter(project => project.archived),
+    getProjectById: (state) => (id: string | null | undefined) =>
+      id ? state.projects.find(project => project.id === id) : undefined,
+    // Completion summary of a project based on the loaded tasks; complete once the full task list is loaded
+    getProjectSummary: () => (id: string): ProjectSummary => {
+      const tasks = useTaskStore().getKnownTasks.filter(task => task.projectId === id);
+      const completed = tasks.filter(task => task.completed).length;
+      return { total: tasks.length, completed, open: tasks.length - completed };
+    }
+  },
+
+  actions: {
+    async fetchProjects() {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        const projects = await projectService.getAllProjects();
+        this.projects = projects;
+        return projects;
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to fetch projects';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async createProject(projectData: CreateProjectDto) {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        const project = await projectService.createProject(projectData);
+        this.projects.push(project);
+        return project;
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to create project';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async updateProject(id: string, projectData: UpdateProjectDto) {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        const project = await projectService.updateProject(id, projectData);
+        this.replaceProject(project);
+        return project;
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to update project';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async setArchived(id: string, archived: boolean) {
+      return this.updateProject(id, { archived });
+    },
+
+    async deleteProject(id: string) {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        await projectService.deleteProject(id);
+        this.projects = this.projects.filter(project => project.id !== id);
+
+        // Tasks of a deleted project are kept without a project
+        const taskStore = useTaskStore();
+        [...taskStore.tasks, ...taskStore.sharedTasks, ...(taskStore.fullTaskList || [])]
+          .filter(task => task.projectId === id)
+          .forEach(task => {
+            task.projectId = null;
+          });
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to delete project';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async shareProject(id: string, username: string) {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        const project = await projectService.shareProject(id, { username });
+        this.replaceProject(project);
+        return project;
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to share project';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    async unshareProject(id: string, username: string) {
+      this.loading = true;
+      this.error = null;
+
+      try {
+        const project = await projectService.unshareProject(id, username);
+        this.replaceProject(project);
+        return project;
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to unshare project';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    // Helper method to replace a project in the list with its updated version
+    replaceProject(updatedProject: ProjectDto) {
+      const index = this.projects.findIndex(project => project.id === updatedProject.id);
+      if (index !== -1) {
+        this.projects[index] = updatedProject;
+      }
+    },
+
+    clearError() {
+      this.error = null;
+    }
+  }
+});
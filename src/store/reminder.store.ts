@@ -0,0 +1,96 @@
+import { defineStore } from 'pinia';
+import { type TaskReminderDto } from '../types/models';
+import { useAuthStore } from './auth.store';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * Interface representing the state of the reminder store
+ */
+interface ReminderState {
+  /** Reminder offset in minutes added to new tasks, or null for none */
+  defaultOffset: number | null;
+  /** Times of the reminders that already went off, by reminder key */
+  fired: Record<string, number>;
+  /** Username the preferences were loaded for */
+  loadedFor: string | null;
+}
+
+// Fired reminders are remembered this long after their time, well past the missed reminder grace period
+const FIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const settingsStorage = createUserStorageEntry<{ defaultOffset?: number | null }>('reminderSettings', () => ({}));
+const firedStorage = createUserStorageEntry<Record<string, number>>('firedReminders', () => ({}));
+
+/**
+ * Reminder store for the default reminder offset and the reminders that already went off
+ *
+ * Both are persisted in localStorage under the current user's name, so a reminder
+ * is not shown again after a reload.
+ */
+export const useReminderStore = defineStore('reminder', {
+  state: (): ReminderState => ({
+    defaultOffset: null,
+    fired: {},
+    loadedFor: null
+  }),
+
+  getters: {
+    /**
+     * Gets the reminders new tasks start with
+     * @returns {TaskReminderDto[]} The default reminder, if one is set
+     */
+    getDefaultReminders: (state): TaskReminderDto[] =>
+      state.defaultOffset !== null ? [{ offsetMinutes: state.defaultOffset }] : [],
+
+    /**
+     * Checks if a reminder already went off
+     * @returns {Function} Function that takes a reminder key and returns whether it went off
+     */
+    hasFired: (state) => (key: string): boolean => key in state.fired
+  },
+
+  actions: {
+    /**
+     * Loads the reminder preferences of the current user
+     * Does nothing if they are already loaded
+     */
+    loadPreferences() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+
+      this.defaultOffset = settingsStorage.read(this.loadedFor).defaultOffset ?? null;
+      this.fired = firedStorage.read(this.loadedFor);
+    },
+
+    /**
+     * Changes the reminder offset added to new tasks
+     * @param {number | null} offset - Minutes before the due date, or null for no reminder
+     */
+    setDefaultOffset(offset: number | null) {
+      this.defaultOffset = offset;
+      settingsStorage.write(this.loadedFor, { defaultOffset: offset });
+    },
+
+    /**
+     * Remembers that a reminder went off
+     * Reminders older than the retention period are forgotten at the same time.
+     * @param {string} key - The reminder key
+     * @param {number} time - The reminder time in milliseconds
+     */
+    markFired(key: string, time: number) {
+      // Another tab may have fired reminders since they were loaded
+      const stored = firedStorage.read(this.loadedFor);
+      const threshold = Date.now() - FIRED_RETENTION_MS;
+      this.fired = Object.fromEntries(
+        Object.entries({ ...this.fired, ...stored, [key]: time }).filter(([, firedTime]) => firedTime > threshold)
+      );
+      firedStorage.write(this.loadedFor, this.fired);
+    },
+
+    /**
+     * Re-reads the fired reminders, which other tabs may have added to
+     */
+    syncFired() {
+      this.fired = { ...this.fired, ...firedStorage.read(this.loadedFor) };
+    }
+  }
+});
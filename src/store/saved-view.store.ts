@@ -0,0 +1,93 @@
+import { defineStore } from 'pinia';
+import { useAuthStore } from './auth.store';
+import { DEFAULT_TASK_FILTERS, type TaskFilterState } from '../utils/task-filters';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * A named set of task filters
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: TaskFilterState;
+}
+
+/**
+ * Interface representing the state of the saved view store
+ */
+interface SavedViewState {
+  /** Saved views of the current user */
+  views: SavedView[];
+  /** Username the views were loaded for */
+  loadedFor: string | null;
+}
+
+const viewsStorage = createUserStorageEntry<SavedView[]>('savedViews', () => []);
+
+/**
+ * Saved view store for managing named filter presets ("smart views")
+ *
+ * Views are persisted in localStorage under the current user's name.
+ */
+export const useSavedViewStore = defineStore('savedView', {
+  state: (): SavedViewState => ({
+    views: [],
+    loadedFor: null
+  }),
+
+  getters: {
+    /**
+     * Gets the saved views sorted by name
+     * @returns {SavedView[]} The saved views
+     */
+    getViews: (state) => [...state.views].sort((a, b) => a.name.localeCompare(b.name))
+  },
+
+  actions: {
+    /**
+     * Loads the saved views of the current user
+     * Does nothing if they are already loaded
+     */
+    loadViews() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+
+      // Fill in filters added after the view was saved
+      this.views = viewsStorage.read(this.loadedFor)
+        .map(view => ({ ...view, filters: { ...DEFAULT_TASK_FILTERS, ...view.filters } }));
+    },
+
+    /**
+     * Saves the current filters under a name, replacing a view with the same name
+     * @param {string} name - The name of the view
+     * @param {TaskFilterState} filters - The filters to save
+     * @returns {SavedView} The saved view
+     */
+    saveView(name: string, filters: TaskFilterState): SavedView {
+      const existing = this.views.find(view => view.name.toLowerCase() === name.toLowerCase());
+      const view: SavedView = {
+        id: existing?.id || Date.now().toString(36),
+        name,
+        filters: { ...filters, tags: [...filters.tags] }
+      };
+
+      this.views = existing
+        ? this.views.map(v => v.id === existing.id ? view : v)
+        : [...this.views, view];
+      this.persist();
+      return view;
+    },
+
+    /**
+     * Deletes a saved view
+     * @param {string} id - The ID of the view
+     */
+    deleteView(id: string) {
+      this.views = this.views.filter(view => view.id !== id);
+      this.persist();
+    },
+
+    persist() {
+      viewsStorage.write(this.loadedFor, this.views);
+    }
+  }
+});
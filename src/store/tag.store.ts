@@ -0,0 +1,190 @@
+import { defineStore } from 'pinia';
+import { type TaskDto } from '../types/models';
+import { useAuthStore } from './auth.store';
+import { useTaskStore } from './task.store';
+import { getDefaultTagColor, normalizeTag, normalizeTags } from '../utils/tags';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * Interface representing the state of the tag store
+ */
+interface TagState {
+  /** Colors assigned to tags, keyed by tag name */
+  colors: Record<string, string>;
+  /** Flag indicating if a tag operation across tasks is in progress */
+  loading: boolean;
+  /** Error message from the last failed operation or null if no error */
+  error: string | null;
+  /** Username the tag colors were loaded for */
+  loadedFor: string | null;
+}
+
+const colorsStorage = createUserStorageEntry<Record<string, string>>('tagColors', () => ({}));
+
+/**
+ * Tag store for managing task tags
+ *
+ * Tags live on the tasks themselves as a list of names. This store derives the
+ * set of known tags from the loaded tasks (all owned tasks once the full task list is loaded), keeps the tag colors (persisted in
+ * localStorage under the current user's name) and applies renames, merges and deletions across all tasks.
+ */
+export const useTagStore = defineStore('tag', {
+  state: (): TagState => ({
+    colors: {},
+    loading: false,
+    error: null,
+    loadedFor: null
+  }),
+
+  getters: {
+    /**
+     * Gets all tags used by the loaded tasks, sorted by name
+     * @returns {string[]} The tag names
+     */
+    allTags(): string[] {
+      return Object.keys(this.tagUsage).sort();
+    },
+
+    /**
+     * Gets the number of tasks using each tag
+     * @returns {Record<string, number>} Task count per tag name
+     */
+    tagUsage(): Record<string, number> {
+      const usage: Record<string, number> = {};
+      getTasksWithTags().forEach(task => {
+        (task.tags || []).forEach(tag => {
+          usage[tag] = (usage[tag] || 0) + 1;
+        });
+      });
+      return usage;
+    },
+
+    /**
+     * Gets the color of a tag, falling back to a stable default color
+     * @returns {(name: string) => string} Function returning the color for a tag
+     */
+    getTagColor: (state) => (name: string) => state.colors[name] || getDefaultTagColor(name)
+  },
+
+  actions: {
+    /**
+     * Loads the tag colors of the current user
+     * Does nothing if they are already loaded
+     */
+    loadColors() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+      this.colors = colorsStorage.read(this.loadedFor);
+    },
+
+    /**
+     * Sets the color of a tag
+     * @param {string} name - The tag name
+     * @param {string} color - The Vuetify color name
+     */
+    setTagColor(name: string, color: string) {
+      this.colors = { ...this.colors, [name]: color };
+      this.saveColors();
+    },
+
+    /**
+     * Renames a tag on all tasks
+     * Renaming to an existing tag merges both tags
+     * @param {string} name - The current tag name
+     * @param {string} newName - The new tag name
+     */
+    async renameTag(name: string, newName: string) {
+      const target = normalizeTag(newName);
+      if (!target || target === name) {
+        return;
+      }
+
+      await this.replaceTags([name], target, `Tag "${name}" renamed to "${target}"`);
+
+      // Carry the color over unless the target tag already has one
+      if (this.colors[name]) {
+        const { [name]: color, ...colors } = this.colors;
+        this.colors = this.colors[target] ? colors : { ...colors, [target]: color };
+        this.saveColors();
+      }
+    },
+
+    /**
+     * Merges several tags into one tag on all tasks
+     * @param {string[]} names - The tags to merge
+     * @param {string} target - The tag that replaces them
+     */
+    async mergeTags(names: string[], target: string) {
+      const normalizedTarget = normalizeTag(target);
+      if (!normalizedTarget) {
+        return;
+      }
+
+      const merged = names.filter(name => name !== normalizedTarget);
+      await this.replaceTags(merged, normalizedTarget, `${merged.length} tag${merged.length === 1 ? '' : 's'} merged into "${normalizedTarget}"`);
+    },
+
+    /**
+     * Removes a tag from all tasks
+     * @param {string} name - The tag to delete
+     */
+    async deleteTag(name: string) {
+      await this.replaceTags([name], null, `Tag "${name}" deleted`);
+
+      if (this.colors[name]) {
+        const { [name]: _, ...colors } = this.colors;
+        this.colors = colors;
+        this.saveColors();
+      }
+    },
+
+    /**
+     * Replaces tags on every task that uses them, as one step that can be undone
+     * @param {string[]} names - The tags to replace
+     * @param {string | null} replacement - The tag to put in their place, or null to remove them
+     * @param {string} label - Describes the change for the undo history
+     */
+    async replaceTags(names: string[], replacement: string | null, label: string) {
+      const taskStore = useTaskStore();
+
+      this.loading = true;
+      this.error = null;
+
+      try {
+        // The task list may only hold some pages of a search, so every owned task is loaded first
+        await taskStore.fetchFullTaskList();
+        const affectedTasks = getTasksWithTags().filter(task =>
+          (task.tags || []).some(tag => names.includes(tag))
+        );
+
+        const updates = affectedTasks.map(task => ({
+          id: task.id,
+          update: {
+            tags: normalizeTags((task.tags || []).map(tag => names.includes(tag) ? replacement || '' : tag))
+          }
+        }));
+
+        const result = await taskStore.updateTasks(updates, label);
+        if (result.failed.length > 0) {
+          throw new Error(`${result.failed.length} of ${updates.length} tasks could not be updated`);
+        }
+      } catch (error: any) {
+        this.error = error.response?.data?.message || 'Failed to update tags';
+        throw error;
+      } finally {
+        this.loading = false;
+      }
+    },
+
+    /**
+     * Persists the tag colors of the current user in localStorage
+     */
+    saveColors() {
+      colorsStorage.write(this.loadedFor, this.colors);
+    }
+  }
+});
+
+// Collect the loaded tasks that have tags, without duplicates
+function getTasksWithTags(): TaskDto[] {
+  return useTaskStore().getKnownTasks.filter(task => task.tags && task.tags.length > 0);
+}
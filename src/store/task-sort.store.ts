@@ -0,0 +1,65 @@
+import { defineStore } from 'pinia';
+import { useAuthStore } from './auth.store';
+import { DEFAULT_TASK_SORT, type TaskSortState, moveInOrder } from '../utils/task-sort';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * Interface representing the state of the task sort store
+ */
+interface TaskSortStoreState {
+  /** The chosen sort */
+  sort: TaskSortState;
+  /** Task IDs in the order arranged by hand */
+  manualOrder: string[];
+  /** Username the preferences were loaded for */
+  loadedFor: string | null;
+}
+
+const sortStorage = createUserStorageEntry<Partial<TaskSortState>>('taskSort', () => ({}));
+const orderStorage = createUserStorageEntry<string[]>('taskOrder', () => []);
+
+/**
+ * Task sort store for the chosen task sort and the manual task order
+ *
+ * Both are persisted in localStorage under the current user's name.
+ */
+export const useTaskSortStore = defineStore('taskSort', {
+  state: (): TaskSortStoreState => ({
+    sort: { ...DEFAULT_TASK_SORT },
+    manualOrder: [],
+    loadedFor: null
+  }),
+
+  actions: {
+    /**
+     * Loads the sort preferences of the current user
+     * Does nothing if they are already loaded
+     */
+    loadPreferences() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+
+      this.sort = { ...DEFAULT_TASK_SORT, ...sortStorage.read(this.loadedFor) };
+      this.manualOrder = orderStorage.read(this.loadedFor);
+    },
+
+    /**
+     * Changes the sort
+     * @param {TaskSortState} sort - The new sort
+     */
+    setSort(sort: TaskSortState) {
+      this.sort = { ...sort };
+      sortStorage.write(this.loadedFor, this.sort);
+    },
+
+    /**
+     * Moves a task in the manual order
+     * @param {string[]} visibleIds - The visible task IDs in their current order
+     * @param {string} taskId - The task to move
+     * @param {number} toIndex - The new index of the task among the visible tasks
+     */
+    moveTask(visibleIds: string[], taskId: string, toIndex: number) {
+      this.manualOrder = moveInOrder(this.manualOrder, visibleIds, taskId, toIndex);
+      orderStorage.write(this.loadedFor, this.manualOrder);
+    }
+  }
+});
@@ -1,20 +1,111 @@
 import {defineStore} from 'pinia';
 import taskService from '../services/task.service';
+import reminderService from '../services/reminder.service';
 import {
   type CreateTaskDto,
   type ShareTaskDto,
+  type SubtaskDto,
+  type TaskActivityListDto,
   type TaskDto,
   type TimerUpdateDto,
   type UpdateTaskDto
 } from '../types/models';
 import {useAuthStore} from './auth.store';
+import {buildNextOccurrence} from '../utils/recurrence';
+import {findDependents, findOpenBlockers, wouldCreateCycle} from '../utils/dependencies';
+import {type BatchResult, runWithConcurrency} from '../utils/batch';
+import {DEFAULT_TRASH_RETENTION_DAYS} from '../utils/trash';
+import {type ImportResult, type ImportTask} from '../utils/task-import';
+
+// An operation that can be applied to many tasks at once
+export type BatchAction =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'delete' }
+  | { type: 'update'; update: UpdateTaskDto }
+  | { type: 'share'; username: string };
+
+// Maximum number of requests in flight while running a batch
+const BATCH_CONCURRENCY = 4;
+
+// A recorded mutation with everything needed to undo and redo it
+export type TaskCommand =
+  | { type: 'create'; label: string; task: TaskDto }
+  | { type: 'update'; label: string; before: TaskDto; after: TaskDto }
+  | { type: 'complete'; label: string; taskId: string; nextOccurrenceId?: string }
+  | { type: 'uncomplete'; label: string; taskId: string }
+  | { type: 'delete'; label: string; task: TaskDto }
+  | { type: 'archive'; label: string; taskId: string }
+  | { type: 'share' | 'unshare'; label: string; taskId: string; username: string }
+  | { type: 'batch'; label: string; commands: TaskCommand[] };
+
+// Maximum number of commands kept for undo
+const MAX_HISTORY = 50;
+
+// Past tense of each batch action, used in summaries
+export const BATCH_VERBS: Record<BatchAction['type'], string> = {
+  complete: 'completed',
+  uncomplete: 'reopened',
+  delete: 'deleted',
+  update: 'updated',
+  share: 'shared'
+};
+
+// Number of tasks loaded per page of a paged search
+export const SEARCH_PAGE_SIZE = 25;
+
+// Page cursor of the paged search that fills the task list
+interface TaskSearchState {
+  // True while tasks holds the pages of a search instead of all tasks
+  active: boolean;
+  // Query and server-side sort the loaded pages belong to
+  query: string;
+  sort: string[];
+  // Next page to load
+  nextPage: number;
+  // Total number of pages and tasks, null until the first page is loaded
+  totalPages: number | null;
+  count: number | null;
+  loading: boolean;
+}
+
+const inactiveSearch = (): TaskSearchState => ({
+  active: false,
+  query: '',
+  sort: [],
+  nextPage: 0,
+  totalPages: null,
+  count: null,
+  loading: false
+});
+
+// Controller of the search request in flight, aborted when a newer one starts
+let searchController: AbortController | null = null;
 
 interface TaskState {
   tasks: TaskDto[];
   sharedTasks: TaskDto[];
+  // All owned tasks, loaded on demand for features that need every task (tags, project progress,
+  // dependencies) while tasks only holds some pages of a search; null until loaded
+  fullTaskList: TaskDto[] | null;
+  // Deleted and archived tasks, kept apart from the tasks above
+  trashedTasks: TaskDto[];
+  archivedTasks: TaskDto[];
+  // Days the server keeps deleted tasks in the trash, and the user this setting was loaded for
+  trashRetentionDays: number;
+  trashSettingsFor: string | null;
   currentTask: TaskDto | null;
   loading: boolean;
   error: string | null;
+  undoStack: TaskCommand[];
+  redoStack: TaskCommand[];
+  // Most recently recorded command, used to offer an undo right after a mutation
+  lastCommand: TaskCommand | null;
+  // Commands recorded while a batch is running, recorded as one command afterwards
+  pendingBatch: TaskCommand[] | null;
+  // True while undoing or redoing, so the replayed mutations are not recorded again
+  replaying: boolean;
+  search: TaskSearchState;
 }
 
 // Helper function to handle API calls with loading and error states
@@ -35,27 +126,146 @@ async function handleApiCall<T>(
   }
 }
 
+// Message of a failed API call for reports that list several errors
+function getErrorMessage(error: any): string {
+  return error.response?.data?.message || error.message || 'An error occurred';
+}
+
+// Add a task to the task list and, once loaded, the full task list, replacing an older copy
+function addToTaskLists(state: TaskState, task: TaskDto) {
+  state.tasks = [...state.tasks.filter(existing => existing.id !== task.id), task];
+  if (state.fullTaskList) {
+    state.fullTaskList = [...state.fullTaskList.filter(existing => existing.id !== task.id), task];
+  }
+}
+
+// Remove a task from the task list and the full task list
+function removeFromTaskLists(state: TaskState, id: string) {
+  state.tasks = state.tasks.filter(task => task.id !== id);
+  if (state.fullTaskList) {
+    state.fullTaskList = state.fullTaskList.filter(task => task.id !== id);
+  }
+}
+
+// Build the fields needed to recreate a task
+function buildCreateDto(task: TaskDto): CreateTaskDto {
+  return {
+    name: task.name,
+    description: task.description,
+    dueDate: task.dueDate,
+    allDay: task.allDay,
+    urgency: task.urgency,
+    importance: task.importance,
+    subtasks: task.subtasks,
+    recurrence: task.recurrence,
+    tags: task.tags,
+    projectId: task.projectId,
+    blockedBy: task.blockedBy,
+    reminders: task.reminders,
+    estimateMinutes: task.estimateMinutes
+  };
+}
+
+// Build an update that restores all editable fields of a task
+function buildUpdateDto(task: TaskDto): UpdateTaskDto {
+  return {
+    ...buildCreateDto(task),
+    // Tasks from before importance was added have none; medium is what they were shown as
+    importance: task.importance || 'MEDIUM',
+    completed: task.completed
+  };
+}
+
+// Point a recorded command at the new ID of a task that was recreated
+function remapCommand(command: TaskCommand, oldId: string, newId: string) {
+  const remapId = (id: string) => id === oldId ? newId : id;
+  // Snapshots are replaced rather than changed, they may be shared with the task list
+  const remapTask = (task: TaskDto): TaskDto => ({
+    ...task,
+    id: remapId(task.id),
+    blockedBy: task.blockedBy?.map(remapId)
+  });
+
+  switch (command.type) {
+    case 'create':
+    case 'delete':
+      command.task = remapTask(command.task);
+      break;
+    case 'update':
+      command.before = remapTask(command.before);
+      command.after = remapTask(command.after);
+      break;
+    case 'complete':
+      command.taskId = remapId(command.taskId);
+      command.nextOccurrenceId = command.nextOccurrenceId && remapId(command.nextOccurrenceId);
+      break;
+    case 'uncomplete':
+    case 'archive':
+    case 'share':
+    case 'unshare':
+      command.taskId = remapId(command.taskId);
+      break;
+    case 'batch':
+      command.commands.forEach(child => remapCommand(child, oldId, newId));
+      break;
+  }
+}
+
 export const useTaskStore = defineStore('task', {
   state: (): TaskState => ({
     tasks: [],
     sharedTasks: [],
+    fullTaskList: null,
+    trashedTasks: [],
+    archivedTasks: [],
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+    trashSettingsFor: null,
     currentTask: null,
     loading: false,
-    error: null
+    error: null,
+    undoStack: [],
+    redoStack: [],
+    lastCommand: null,
+    pendingBatch: null,
+    replaying: false,
+    search: inactiveSearch()
   }),
 
   getters: {
     getTasks: (state) => state.tasks,
     getSharedTasks: (state) => state.sharedTasks,
-    getTaskById: (state) => (id: string) => state.tasks.find(task => task.id === id) || state.sharedTasks.find(task => task.id === id),
+    getTaskById: (state) => (id: string) => state.tasks.find(task => task.id === id) ||
+      state.sharedTasks.find(task => task.id === id) ||
+      state.fullTaskList?.find(task => task.id === id),
+    // Every loaded task without duplicates: the full task list if loaded, shared tasks and the task list
+    getKnownTasks: (state): TaskDto[] => {
+      const tasks = new Map<string, TaskDto>();
+      [...(state.fullTaskList || []), ...state.sharedTasks, ...state.tasks].forEach(task => tasks.set(task.id, task));
+      return [...tasks.values()];
+    },
     getCompletedTasks: (state) => state.tasks.filter(task => task.completed),
     getPendingTasks: (state) => state.tasks.filter(task => !task.completed),
     // This getter is redundant with getTasks, but keeping for backward compatibility
-    getAllTasks: (state) => [...state.tasks]
+    getAllTasks: (state) => [...state.tasks],
+    // Open prerequisites of a task, looked up in all known owned and shared tasks
+    getOpenBlockers(): (task: TaskDto) => TaskDto[] {
+      return (task: TaskDto) => findOpenBlockers(task, this.getKnownTasks);
+    },
+    isTaskBlocked(): (task: TaskDto) => boolean {
+      return (task: TaskDto) => findOpenBlockers(task, this.getKnownTasks).length > 0;
+    },
+    getDependents(): (taskId: string) => TaskDto[] {
+      return (taskId: string) => findDependents(taskId, this.getKnownTasks);
+    },
+    canUndo: (state) => state.undoStack.length > 0,
+    canRedo: (state) => state.redoStack.length > 0,
+    hasMoreSearchResults: (state) =>
+      state.search.active && (state.search.totalPages === null || state.search.nextPage < state.search.totalPages)
   },
 
   actions: {
     async fetchAllTasks(type?: string) {
+      this.cancelSearch();
       return handleApiCall(this, async () => {
         const tasks = await taskService.getAllTasks(type);
         this.tasks = tasks;
@@ -63,10 +273,106 @@ export const useTaskStore = defineStore('task', {
       });
     },
 
+    /**
+     * Starts a paged search, replacing the loaded tasks with its first page
+     * A search request that is still running is cancelled
+     * @param {string} query - Text the task names have to contain, empty for all tasks
+     * @param {string[]} sort - Sort parameters for the server, so pages arrive in display order
+     * @returns {Promise<TaskDto[]>} The tasks of the first page
+     */
+    async searchTasks(query: string, sort: string[] = []) {
+      searchController?.abort();
+      searchController = null;
+      this.search = { ...inactiveSearch(), active: true, query, sort };
+      this.tasks = [];
+      return this.loadNextSearchPage();
+    },
+
+    /**
+     * Loads the next page of the current search and merges it into the loaded tasks
+     * Tasks that are already loaded are updated instead of added again
+     * @returns {Promise<TaskDto[]>} The tasks of the page, empty if there is nothing more to load
+     */
+    async loadNextSearchPage() {
+      if (!this.hasMoreSearchResults || this.search.loading) {
+        return [];
+      }
+
+      const controller = new AbortController();
+      searchController = controller;
+      const { query, sort, nextPage } = this.search;
+      this.search.loading = true;
+      this.error = null;
+
+      try {
+        const page = await taskService.searchTasks(query, nextPage, SEARCH_PAGE_SIZE, controller.signal, sort);
+        // A newer search started while this page was loading
+        if (controller.signal.aborted) {
+          return [];
+        }
+
+        page.tasks.forEach(task => {
+          const index = this.tasks.findIndex(cached => cached.id === task.id);
+          if (index === -1) {
+            this.tasks.push(task);
+          } else {
+            this.tasks[index] = task;
+          }
+        });
+        this.search.nextPage = nextPage + 1;
+        this.search.totalPages = page.pages;
+        this.search.count = page.count;
+        return page.tasks;
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          return [];
+        }
+        this.error = error.response?.data?.message || 'An error occurred';
+        throw error;
+      } finally {
+        if (searchController === controller) {
+          searchController = null;
+          this.search.loading = false;
+        }
+      }
+    },
+
+    /**
+     * Cancels the paged search, e.g. before loading all tasks
+     */
+    cancelSearch() {
+      searchController?.abort();
+      searchController = null;
+      this.search = inactiveSearch();
+    },
+
     async fetchOwnedTasks() {
       return this.fetchAllTasks('owned');
     },
 
+    /**
+     * Loads all owned tasks into the full task list, apart from the possibly paged task list
+     * @returns {Promise<TaskDto[]>} All owned tasks
+     */
+    async fetchFullTaskList(): Promise<TaskDto[]> {
+      return handleApiCall(this, async () => {
+        const tasks = await taskService.getAllTasks('owned');
+        this.fullTaskList = tasks;
+        return tasks;
+      });
+    },
+
+    /**
+     * Loads the full task list if prerequisites of some tasks are not loaded, so their blocked state is known
+     * @param {TaskDto[]} tasks - Tasks that were just loaded, e.g. a page of a search
+     */
+    async loadMissingBlockers(tasks: TaskDto[]) {
+      const missing = tasks.some(task => (task.blockedBy || []).some(id => !this.getTaskById(id)));
+      if (missing && !this.fullTaskList) {
+        await this.fetchFullTaskList();
+      }
+    },
+
     async fetchTaskById(id: string) {
       return handleApiCall(this, async () => {
         const task = await taskService.getTaskById(id);
@@ -78,54 +384,589 @@ export const useTaskStore = defineStore('task', {
     async createTask(taskData: CreateTaskDto) {
       return handleApiCall(this, async () => {
         const task = await taskService.createTask(taskData);
-        this.tasks.push(task);
+        addToTaskLists(this, task);
+        this.recordCommand({ type: 'create', label: 'Task created', task });
         return task;
       });
     },
 
-    async updateTask(id: string, taskData: UpdateTaskDto) {
+    /**
+     * Creates a copy of a task; the copy starts open with an unchecked checklist
+     * @param {TaskDto} task - The task to copy
+     * @returns {Promise<TaskDto>} The new task
+     */
+    async duplicateTask(task: TaskDto): Promise<TaskDto> {
+      return this.createTask({
+        ...buildCreateDto(task),
+        name: `${task.name} (copy)`,
+        subtasks: task.subtasks?.map(({ title }) => ({ title, completed: false }))
+      });
+    },
+
+    async updateTask(id: string, taskData: UpdateTaskDto, label = 'Task updated') {
+      const before = this.getTaskById(id);
       return handleApiCall(this, async () => {
         const updatedTask = await taskService.updateTask(id, taskData);
-        const index = this.tasks.findIndex(task => task.id === id);
-        if (index !== -1) {
-          this.tasks[index] = updatedTask;
-        }
-        if (this.currentTask?.id === id) {
-          this.currentTask = updatedTask;
+        this.updateTaskInStore(id, updatedTask);
+        if (before) {
+          this.recordCommand({ type: 'update', label, before, after: updatedTask });
         }
         return updatedTask;
       });
     },
 
+    async updateSubtasks(id: string, subtasks: SubtaskDto[]) {
+      return this.updateTask(id, { subtasks }, 'Checklist updated');
+    },
+
+    async addDependency(id: string, blockerId: string) {
+      const task = this.getTaskById(id);
+      if (!task) {
+        return Promise.reject(new Error('Task not found'));
+      }
+      if (wouldCreateCycle(id, blockerId, this.getKnownTasks)) {
+        this.error = 'This dependency would create a cycle';
+        return Promise.reject(new Error(this.error));
+      }
+
+      const blockedBy = task.blockedBy || [];
+      if (blockedBy.includes(blockerId)) {
+        return task;
+      }
+      return this.updateBlockedBy(id, [...blockedBy, blockerId]);
+    },
+
+    async removeDependency(id: string, blockerId: string) {
+      const task = this.getTaskById(id);
+      if (!task) {
+        return Promise.reject(new Error('Task not found'));
+      }
+      return this.updateBlockedBy(id, (task.blockedBy || []).filter(taskId => taskId !== blockerId));
+    },
+
+    async updateBlockedBy(id: string, blockedBy: string[]) {
+      return this.updateTask(id, { blockedBy }, 'Dependencies updated');
+    },
+
     async completeTask(id: string) {
       return handleApiCall(this, async () => {
-        const updatedTask = await taskService.completeTask(id);
-        const index = this.tasks.findIndex(task => task.id === id);
-        if (index !== -1) {
-          this.tasks[index] = updatedTask;
-        }
-        if (this.currentTask?.id === id) {
-          this.currentTask = updatedTask;
+        const { updatedTask, nextTask } = await this.applyCompletion(id);
+        this.recordCommand({ type: 'complete', label: 'Task completed', taskId: id, nextOccurrenceId: nextTask?.id });
+        return updatedTask;
+      });
+    },
+
+    // Complete a task on the server, roll recurring tasks forward and refresh the user's XP
+    async applyCompletion(id: string) {
+      const updatedTask = await taskService.completeTask(id);
+      this.updateTaskInStore(id, updatedTask);
+
+      // Roll recurring tasks forward by creating their next occurrence
+      let nextTask: TaskDto | null = null;
+      if (updatedTask.completed && updatedTask.owner !== false) {
+        const nextOccurrence = buildNextOccurrence(updatedTask);
+        if (nextOccurrence) {
+          nextTask = await taskService.createTask(nextOccurrence);
+          addToTaskLists(this, nextTask);
         }
+      }
+
+      // Update user data to reflect newly gained XP
+      const authStore = useAuthStore();
+      await authStore.fetchUser();
+
+      return { updatedTask, nextTask };
+    },
 
-        // Update user data to reflect newly gained XP
-        const authStore = useAuthStore();
-        await authStore.fetchUser();
+    async uncompleteTask(id: string) {
+      const task = this.getTaskById(id);
+      if (!task) {
+        return Promise.reject(new Error('Task not found'));
+      }
 
+      return handleApiCall(this, async () => {
+        // The full task is sent so no fields are lost
+        const updatedTask = await taskService.updateTask(id, { ...buildUpdateDto(task), completed: false });
+        this.updateTaskInStore(id, updatedTask);
+        this.recordCommand({ type: 'uncomplete', label: 'Task reopened', taskId: id });
         return updatedTask;
       });
     },
 
+    /**
+     * Moves a task to the trash, from where it can be restored until the retention period ends
+     * @param {string} id - The ID of the task
+     */
     async deleteTask(id: string) {
+      const task = this.getTaskById(id);
+      return handleApiCall(this, async () => {
+        const trashedTask = await taskService.trashTask(id);
+        removeFromTaskLists(this, id);
+        this.archivedTasks = this.archivedTasks.filter(task => task.id !== id);
+        this.trashedTasks = [trashedTask, ...this.trashedTasks.filter(task => task.id !== id)];
+        reminderService.removeTask(id);
+        if (this.currentTask?.id === id) {
+          this.currentTask = null;
+        }
+        if (task) {
+          this.recordCommand({ type: 'delete', label: 'Task deleted', task });
+        }
+      });
+    },
+
+    /**
+     * Loads the tasks in the trash; the server removes them for good once the retention period has passed
+     * @returns {Promise<TaskDto[]>} The tasks left in the trash
+     */
+    async fetchTrashedTasks(): Promise<TaskDto[]> {
+      return handleApiCall(this, async () => {
+        const tasks = await taskService.getTrashedTasks();
+        this.trashedTasks = tasks;
+        return tasks;
+      });
+    },
+
+    /**
+     * Moves a task from the trash back to the task list
+     * @param {string} id - The ID of the task
+     * @returns {Promise<TaskDto>} The restored task
+     */
+    async restoreTask(id: string): Promise<TaskDto> {
+      return handleApiCall(this, async () => {
+        const task = await taskService.restoreTask(id);
+        this.trashedTasks = this.trashedTasks.filter(trashed => trashed.id !== id);
+        addToTaskLists(this, task);
+        return task;
+      });
+    },
+
+    /**
+     * Deletes a task in the trash for good
+     * @param {string} id - The ID of the task
+     */
+    async deleteTaskPermanently(id: string) {
       return handleApiCall(this, async () => {
         await taskService.deleteTask(id);
-        this.tasks = this.tasks.filter(task => task.id !== id);
+        this.trashedTasks = this.trashedTasks.filter(task => task.id !== id);
+      });
+    },
+
+    /**
+     * Deletes all tasks in the trash for good
+     */
+    async emptyTrash() {
+      return handleApiCall(this, async () => {
+        await taskService.emptyTrash();
+        this.trashedTasks = [];
+      });
+    },
+
+    /**
+     * Loads the trash retention period of the current user from the server
+     * Does nothing if it is already loaded
+     */
+    async loadTrashSettings() {
+      const username = useAuthStore().user?.username || null;
+      if (this.trashSettingsFor === username) return;
+
+      const settings = await taskService.getTrashSettings();
+      this.trashRetentionDays = settings.retentionDays > 0 ? settings.retentionDays : DEFAULT_TRASH_RETENTION_DAYS;
+      this.trashSettingsFor = username;
+    },
+
+    /**
+     * Changes how long the server keeps deleted tasks in the trash
+     * @param {number} days - The retention period in days
+     */
+    async setTrashRetention(days: number) {
+      return handleApiCall(this, async () => {
+        const settings = await taskService.updateTrashSettings({ retentionDays: days });
+        this.trashRetentionDays = settings.retentionDays;
+        this.trashSettingsFor = useAuthStore().user?.username || null;
+      });
+    },
+
+    async fetchArchivedTasks(): Promise<TaskDto[]> {
+      return handleApiCall(this, async () => {
+        this.archivedTasks = await taskService.getArchivedTasks();
+        return this.archivedTasks;
+      });
+    },
+
+    /**
+     * Moves a task out of the task list into the archive
+     * @param {string} id - The ID of the task
+     * @returns {Promise<TaskDto>} The archived task
+     */
+    async archiveTask(id: string): Promise<TaskDto> {
+      return handleApiCall(this, async () => {
+        const task = await taskService.archiveTask(id);
+        removeFromTaskLists(this, id);
+        this.archivedTasks = [task, ...this.archivedTasks.filter(archived => archived.id !== id)];
+        reminderService.removeTask(id);
         if (this.currentTask?.id === id) {
           this.currentTask = null;
         }
+        this.recordCommand({ type: 'archive', label: 'Task archived', taskId: id });
+        return task;
+      });
+    },
+
+    /**
+     * Moves a task from the archive back to the task list
+     * @param {string} id - The ID of the task
+     * @returns {Promise<TaskDto>} The unarchived task
+     */
+    async unarchiveTask(id: string): Promise<TaskDto> {
+      return handleApiCall(this, async () => {
+        const task = await taskService.unarchiveTask(id);
+        this.archivedTasks = this.archivedTasks.filter(archived => archived.id !== id);
+        addToTaskLists(this, task);
+        return task;
       });
     },
 
+    /**
+     * Applies an action to many tasks with bounded concurrency
+     * Individual failures do not stop the batch, they are reported in the result instead
+     * @param {string[]} ids - The IDs of the tasks
+     * @param {BatchAction} action - The action to apply to each task
+     * @returns {Promise<BatchResult<string>>} The IDs of the tasks that succeeded and failed
+     */
+    async runBatch(ids: string[], action: BatchAction): Promise<BatchResult<string>> {
+      // Collect the commands of the batch so it can be undone in one step
+      this.pendingBatch = [];
+      let result: BatchResult<string>;
+      try {
+        result = await runWithConcurrency(ids, BATCH_CONCURRENCY, async (id) => {
+          const task = this.getTaskById(id);
+          switch (action.type) {
+            // Completion is toggled on the server, so tasks already in the target state are
+            // skipped; only the tasks that changed are recorded, and undo reverts just those
+            case 'complete':
+              return task?.completed ? task : this.completeTask(id);
+            case 'uncomplete':
+              return task && !task.completed ? task : this.uncompleteTask(id);
+            case 'delete':
+              return this.deleteTask(id);
+            case 'update':
+              return this.updateTask(id, action.update);
+            case 'share':
+              return this.shareTask(id, action.username);
+          }
+        });
+      } finally {
+        const commands = this.pendingBatch;
+        this.pendingBatch = null;
+        if (commands.length > 0) {
+          this.recordCommand({
+            type: 'batch',
+            label: `${commands.length} task${commands.length === 1 ? '' : 's'} ${BATCH_VERBS[action.type]}`,
+            commands
+          });
+        }
+      }
+
+      this.error = result.failed.length > 0 ? `${result.failed.length} of ${ids.length} tasks failed` : null;
+      return result;
+    },
+
+    /**
+     * Applies a different update to each of many tasks as one step that can be undone
+     * Individual failures do not stop the batch, they are reported in the result instead
+     * @param {{ id: string, update: UpdateTaskDto }[]} updates - The IDs of the tasks with their updates
+     * @param {string} label - Describes the batch for the undo history, e.g. 'Tag renamed on 3 tasks'
+     * @returns {Promise<BatchResult<string>>} The IDs of the tasks that succeeded and failed
+     */
+    async updateTasks(updates: { id: string; update: UpdateTaskDto }[], label: string): Promise<BatchResult<string>> {
+      this.pendingBatch = [];
+      let result: BatchResult<{ id: string; update: UpdateTaskDto }>;
+      try {
+        result = await runWithConcurrency(updates, BATCH_CONCURRENCY, ({ id, update }) => this.updateTask(id, update));
+      } finally {
+        const commands = this.pendingBatch;
+        this.pendingBatch = null;
+        if (commands.length > 0) {
+          this.recordCommand({ type: 'batch', label, commands });
+        }
+      }
+
+      return { succeeded: result.succeeded.map(({ id }) => id), failed: result.failed.map(({ id }) => id) };
+    },
+
+    /**
+     * Creates many tasks, e.g. from an import file, as one step that can be undone
+     * All tasks are created first, then their dependencies, timer settings, focused time and
+     * completion are restored. Failures do not stop the import, they are reported per task instead;
+     * a task whose later steps failed is reported as incomplete, as it exists and must not be imported again.
+     * @param {ImportTask[]} tasks - The tasks to create; blockedBy holds the source IDs of other tasks in the list
+     * @param {Function} onProgress - Called with the number of finished tasks after each task
+     * @returns {Promise<ImportResult[]>} The outcome for each task
+     */
+    async importTasks(tasks: ImportTask[], onProgress?: (finished: number) => void): Promise<ImportResult[]> {
+      const results: ImportResult[] = tasks.map(() => ({ status: 'created', message: null }));
+      const created: (TaskDto | null)[] = tasks.map(() => null);
+      const indices = tasks.map((_, index) => index);
+      let finished = 0;
+
+      this.pendingBatch = [];
+      try {
+        await runWithConcurrency(indices, BATCH_CONCURRENCY, async (index) => {
+          const { completed, sourceId, blockedBy, pomodoroTimeMillis, focusedTimeMillis, ...taskData } = tasks[index];
+          try {
+            created[index] = await this.createTask(taskData);
+          } catch (error: any) {
+            results[index] = { status: 'failed', message: getErrorMessage(error) };
+            onProgress?.(++finished);
+            throw error;
+          }
+        });
+
+        const newIds = new Map<string, string>();
+        tasks.forEach((task, index) => {
+          if (task.sourceId && created[index]) {
+            newIds.set(task.sourceId, created[index]!.id);
+          }
+        });
+
+        await runWithConcurrency(indices.filter(index => created[index]), BATCH_CONCURRENCY, async (index) => {
+          const { completed, blockedBy = [], pomodoroTimeMillis, focusedTimeMillis } = tasks[index];
+          const task = created[index]!;
+          let step = 'its dependencies could not be restored';
+          try {
+            const blockerIds = blockedBy.flatMap(id => newIds.has(id) ? [newIds.get(id)!] : []);
+            if (blockerIds.length > 0) {
+              await this.updateBlockedBy(task.id, blockerIds);
+            }
+            step = 'its pomodoro time could not be restored';
+            if (pomodoroTimeMillis && pomodoroTimeMillis !== task.pomodoroTimeMillis) {
+              await this.updateTimer(task.id, { remainingTimeMillis: pomodoroTimeMillis, timerActive: false });
+            }
+            step = 'its focused time could not be restored';
+            if (focusedTimeMillis && focusedTimeMillis > 0) {
+              this.updateTaskInStore(task.id, await taskService.recordFocusedTime(task.id, { focusedTimeMillis }));
+            }
+            step = 'it could not be completed';
+            if (completed) {
+              await this.updateTask(task.id, { completed: true });
+            }
+
+            const missing = blockedBy.length - blockerIds.length;
+            if (missing > 0) {
+              results[index] = {
+                status: 'incomplete',
+                message: `Created without ${missing} dependenc${missing === 1 ? 'y' : 'ies'} on tasks that were not imported`
+              };
+            }
+          } catch (error: any) {
+            results[index] = { status: 'incomplete', message: `Created, but ${step}: ${getErrorMessage(error)}` };
+            throw error;
+          } finally {
+            onProgress?.(++finished);
+          }
+        });
+      } finally {
+        const commands = this.pendingBatch;
+        this.pendingBatch = null;
+        const createdCount = commands.filter(command => command.type === 'create').length;
+        if (createdCount > 0) {
+          this.recordCommand({ type: 'batch', label: `${createdCount} task${createdCount === 1 ? '' : 's'} imported`, commands });
+        }
+      }
+
+      const failed = results.filter(result => result.status === 'failed').length;
+      const incomplete = results.filter(result => result.status === 'incomplete').length;
+      this.error = failed > 0
+        ? `${failed} of ${tasks.length} tasks failed`
+        : incomplete > 0 ? `${incomplete} of ${tasks.length} tasks were imported incompletely` : null;
+      return results;
+    },
+
+    /**
+     * Records a mutation so it can be undone
+     * Recording a new command clears the redo history
+     * @param {TaskCommand} command - The mutation and the data needed to revert it
+     */
+    recordCommand(command: TaskCommand) {
+      if (this.replaying) return;
+
+      if (this.pendingBatch) {
+        this.pendingBatch.push(command);
+        return;
+      }
+
+      this.undoStack.push(command);
+      if (this.undoStack.length > MAX_HISTORY) {
+        this.undoStack.shift();
+      }
+      this.redoStack = [];
+      this.lastCommand = command;
+    },
+
+    /**
+     * Reverts the most recent command
+     * @returns {Promise<TaskCommand | null>} The reverted command, or null if there is nothing to undo
+     */
+    async undo(): Promise<TaskCommand | null> {
+      const command = this.undoStack.pop();
+      if (!command) return null;
+
+      // Move the command first so ID changes during the replay are applied to it as well
+      this.redoStack.push(command);
+      try {
+        await this.replay(command, 'undo');
+        return command;
+      } catch (error) {
+        this.redoStack.pop();
+        this.undoStack.push(command);
+        throw error;
+      }
+    },
+
+    /**
+     * Applies the most recently undone command again
+     * @returns {Promise<TaskCommand | null>} The reapplied command, or null if there is nothing to redo
+     */
+    async redo(): Promise<TaskCommand | null> {
+      const command = this.redoStack.pop();
+      if (!command) return null;
+
+      this.undoStack.push(command);
+      try {
+        await this.replay(command, 'redo');
+        return command;
+      } catch (error) {
+        this.undoStack.pop();
+        this.redoStack.push(command);
+        throw error;
+      }
+    },
+
+    async replay(command: TaskCommand, direction: 'undo' | 'redo') {
+      const wasReplaying = this.replaying;
+      this.replaying = true;
+      try {
+        await this.replayCommand(command, direction);
+      } finally {
+        this.replaying = wasReplaying;
+      }
+    },
+
+    async replayCommand(command: TaskCommand, direction: 'undo' | 'redo') {
+      const undo = direction === 'undo';
+
+      switch (command.type) {
+        case 'create':
+          if (undo) {
+            await this.deleteTask(command.task.id);
+          } else {
+            await this.restoreOrRecreateTask(command.task);
+          }
+          break;
+
+        case 'update': {
+          const target = undo ? command.before : command.after;
+          await this.updateTask(target.id, buildUpdateDto(target));
+          break;
+        }
+
+        case 'complete':
+          if (undo) {
+            await this.uncompleteTask(command.taskId);
+            if (command.nextOccurrenceId) {
+              await this.deleteTask(command.nextOccurrenceId);
+            }
+          } else {
+            const { nextTask } = await handleApiCall(this, () => this.applyCompletion(command.taskId));
+            command.nextOccurrenceId = nextTask?.id;
+          }
+          break;
+
+        case 'uncomplete':
+          if (undo) {
+            // Reopening does not roll recurring tasks back, so completing again must not roll them forward
+            await handleApiCall(this, async () => {
+              const updatedTask = await taskService.completeTask(command.taskId);
+              this.updateTaskInStore(command.taskId, updatedTask);
+            });
+          } else {
+            await this.uncompleteTask(command.taskId);
+          }
+          break;
+
+        case 'delete':
+          if (undo) {
+            await this.restoreOrRecreateTask(command.task);
+          } else {
+            await this.deleteTask(command.task.id);
+          }
+          break;
+
+        case 'archive':
+          if (undo) {
+            await this.unarchiveTask(command.taskId);
+          } else {
+            await this.archiveTask(command.taskId);
+          }
+          break;
+
+        case 'share':
+        case 'unshare':
+          if ((command.type === 'share') === undo) {
+            await this.unshareTask(command.taskId, command.username);
+          } else {
+            await this.shareTask(command.taskId, command.username);
+          }
+          break;
+
+        case 'batch': {
+          const commands = undo ? [...command.commands].reverse() : command.commands;
+          for (const child of commands) {
+            await this.replayCommand(child, direction);
+          }
+          break;
+        }
+      }
+    },
+
+    // Restore a deleted task from the trash, or create it again once it was deleted for good
+    async restoreOrRecreateTask(task: TaskDto) {
+      if (this.trashedTasks.some(trashed => trashed.id === task.id)) {
+        return this.restoreTask(task.id);
+      }
+      return this.recreateTask(task);
+    },
+
+    // Create a deleted task again with its previous fields; the server assigns a new ID
+    async recreateTask(task: TaskDto) {
+      const oldId = task.id;
+      const newTask = await this.createTask(buildCreateDto(task));
+      if (task.completed) {
+        await this.updateTask(newTask.id, { completed: true });
+      }
+
+      // Update the history and the tasks that depended on the old task
+      [...this.undoStack, ...this.redoStack].forEach(command => remapCommand(command, oldId, newTask.id));
+      for (const dependent of findDependents(oldId, this.getKnownTasks)) {
+        await this.updateTask(dependent.id, {
+          blockedBy: (dependent.blockedBy || []).map(id => id === oldId ? newTask.id : id)
+        });
+      }
+
+      return newTask;
+    },
+
+    /**
+     * Loads a page of the activity history of a task, newest first
+     * The history is only shown in the task details, so it is not kept in the store
+     * @param {string} id - The ID of the task
+     * @param {number} page - The page to load
+     * @returns {Promise<TaskActivityListDto>} The page of activity entries
+     */
+    async fetchTaskActivity(id: string, page: number): Promise<TaskActivityListDto> {
+      return taskService.getTaskActivity(id, page);
+    },
+
     clearError() {
       this.error = null;
     },
@@ -143,6 +984,7 @@ export const useTaskStore = defineStore('task', {
         const shareData: ShareTaskDto = { username };
         const updatedTask = await taskService.shareTask(id, shareData);
         this.updateTaskInStore(id, updatedTask);
+        this.recordCommand({ type: 'share', label: `Task shared with ${username}`, taskId: id, username });
         return updatedTask;
       });
     },
@@ -151,6 +993,7 @@ export const useTaskStore = defineStore('task', {
       return handleApiCall(this, async () => {
         const updatedTask = await taskService.unshareTask(id, username);
         this.updateTaskInStore(id, updatedTask);
+        this.recordCommand({ type: 'unshare', label: `Task no longer shared with ${username}`, taskId: id, username });
         return updatedTask;
       });
     },
@@ -201,6 +1044,12 @@ export const useTaskStore = defineStore('task', {
         this.sharedTasks[sharedTaskIndex] = updatedTask;
       }
 
+      // Update in the full task list
+      const fullTaskIndex = this.fullTaskList?.findIndex(task => task.id === id) ?? -1;
+      if (this.fullTaskList && fullTaskIndex !== -1) {
+        this.fullTaskList[fullTaskIndex] = updatedTask;
+      }
+
       // Update currentTask if it's the same task
       if (this.currentTask?.id === id) {
         this.currentTask = updatedTask;
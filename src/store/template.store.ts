@@ -0,0 +1,75 @@
+import { defineStore } from 'pinia';
+import { useAuthStore } from './auth.store';
+import { type TaskTemplate } from '../utils/templates';
+import { createUserStorageEntry, switchLoadedUser } from '../utils/user-storage';
+
+/**
+ * Interface representing the state of the template store
+ */
+interface TemplateState {
+  /** Task templates of the current user */
+  templates: TaskTemplate[];
+  /** Username the templates were loaded for */
+  loadedFor: string | null;
+}
+
+const templatesStorage = createUserStorageEntry<TaskTemplate[]>('taskTemplates', () => []);
+
+/**
+ * Template store for managing reusable task templates
+ *
+ * Templates are persisted in localStorage under the current user's name.
+ */
+export const useTemplateStore = defineStore('template', {
+  state: (): TemplateState => ({
+    templates: [],
+    loadedFor: null
+  }),
+
+  getters: {
+    /**
+     * Gets the templates sorted by title
+     * @returns {TaskTemplate[]} The templates
+     */
+    getTemplates: (state) => [...state.templates].sort((a, b) => a.title.localeCompare(b.title))
+  },
+
+  actions: {
+    /**
+     * Loads the templates of the current user
+     * Does nothing if they are already loaded
+     */
+    loadTemplates() {
+      if (!switchLoadedUser(this, useAuthStore().user?.username || null)) return;
+
+      this.templates = templatesStorage.read(this.loadedFor);
+    },
+
+    /**
+     * Saves a template, replacing the one with the same ID
+     * @param {Omit<TaskTemplate, 'id'> & { id?: string }} template - The template; a new one gets an ID
+     * @returns {TaskTemplate} The saved template
+     */
+    saveTemplate(template: Omit<TaskTemplate, 'id'> & { id?: string }): TaskTemplate {
+      const saved: TaskTemplate = { ...template, id: template.id || Date.now().toString(36) };
+      this.templates = this.templates.some(existing => existing.id === saved.id)
+        ? this.templates.map(existing => existing.id === saved.id ? saved : existing)
+        : [...this.templates, saved];
+      this.persist();
+      return saved;
+    },
+
+    /**
+     * Deletes a template
+     * @param {string} id - The ID of the template
+     */
+    deleteTemplate(id: string) {
+      this.templates = this.templates.filter(template => template.id !== id);
+      this.persist();
+    },
+
+    persist() {
+      templatesStorage.write(this.loadedFor, this.templates);
+    }
+  }
+});
@@ -53,6 +53,39 @@ export interface LogoutRequestDto {
 }
 
 // Task related interfaces
+export interface SubtaskDto {
+  id?: string;
+  title: string;
+  completed: boolean;
+}
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRuleDto {
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  // WEEKLY: the weekdays to repeat on; MONTHLY by weekday: the single weekday to use
+  byWeekday?: Weekday[];
+  // MONTHLY: repeat on a day of the month (-1 for the last day) or on the nth weekday;
+  // YEARLY: the day of the month of the first occurrence, kept when a short month clamps it
+  monthlyMode?: 'BY_MONTH_DAY' | 'BY_WEEKDAY';
+  byMonthDay?: number;
+  // MONTHLY by weekday: 1-4 for the first to fourth weekday, -1 for the last one
+  bySetPosition?: number;
+  end: 'NEVER' | 'UNTIL' | 'COUNT';
+  until?: string;
+  // Remaining occurrences including the current one
+  count?: number;
+}
+
+// A reminder before the due date, or at a fixed time
+export interface TaskReminderDto {
+  // Minutes before the due date
+  offsetMinutes?: number;
+  // Fixed time, used instead of an offset
+  at?: string;
+}
+
 export interface TaskDto {
   id: string;
   createdAt: string;
@@ -60,7 +93,11 @@ export interface TaskDto {
   name: string;
   description: string;
   dueDate: string;
+  // Due some day without a particular time; the due date is then 23:59 local time
+  allDay?: boolean;
   urgency: 'LOW' | 'MEDIUM' | 'HIGH';
+  // How much the task matters, the second axis of the priority matrix; MEDIUM if not set
+  importance?: 'LOW' | 'MEDIUM' | 'HIGH';
   completed: boolean;
   visibility?: 'PRIVATE' | 'SHARED';
   sharedWith?: UserDto[];
@@ -69,21 +106,91 @@ export interface TaskDto {
   remainingTimeMillis?: number;
   lastTimerUpdateTimestamp?: string;
   timerActive?: boolean;
+  subtasks?: SubtaskDto[];
+  recurrence?: RecurrenceRuleDto | null;
+  tags?: string[];
+  projectId?: string | null;
+  // IDs of the tasks that have to be completed before this one can start
+  blockedBy?: string[];
+  reminders?: TaskReminderDto[];
+  // Expected effort in minutes
+  estimateMinutes?: number | null;
+  // Time focused on the task with the pomodoro timer
+  focusedTimeMillis?: number;
+  // Set while the task is in the trash or the archive
+  deletedAt?: string | null;
+  archivedAt?: string | null;
 }
 
 export interface CreateTaskDto {
   name: string;
   description?: string;
   dueDate?: string;
+  allDay?: boolean;
   urgency?: 'LOW' | 'MEDIUM' | 'HIGH';
+  importance?: 'LOW' | 'MEDIUM' | 'HIGH';
+  subtasks?: SubtaskDto[];
+  recurrence?: RecurrenceRuleDto | null;
+  tags?: string[];
+  projectId?: string | null;
+  blockedBy?: string[];
+  reminders?: TaskReminderDto[];
+  estimateMinutes?: number | null;
 }
 
 export interface UpdateTaskDto {
   name?: string;
   description?: string;
   dueDate?: string;
+  allDay?: boolean;
   urgency?: 'LOW' | 'MEDIUM' | 'HIGH';
+  importance?: 'LOW' | 'MEDIUM' | 'HIGH';
   completed?: boolean;
+  subtasks?: SubtaskDto[];
+  recurrence?: RecurrenceRuleDto | null;
+  tags?: string[];
+  projectId?: string | null;
+  blockedBy?: string[];
+  reminders?: TaskReminderDto[];
+  estimateMinutes?: number | null;
+}
+
+// Activity history of a task
+export type TaskActivityType =
+  | 'CREATED'
+  | 'UPDATED'
+  | 'COMPLETED'
+  | 'UNCOMPLETED'
+  | 'SHARED'
+  | 'UNSHARED'
+  | 'TIMER_STARTED'
+  | 'TIMER_PAUSED'
+  | 'TIMER_RESET';
+
+export interface FieldChangeDto {
+  // Name of the changed TaskDto field, e.g. 'dueDate'
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+export interface TaskActivityDto {
+  id: string;
+  taskId: string;
+  type: TaskActivityType;
+  // The user who made the change
+  actor: UserDto;
+  // UPDATED: the changed fields
+  changes?: FieldChangeDto[];
+  // SHARED and UNSHARED: the user the task was shared with or unshared from
+  targetUser?: UserDto;
+  createdAt: string;
+}
+
+export interface TaskActivityListDto {
+  activities: TaskActivityDto[];
+  pages: number;
+  count: number;
 }
 
 export interface ShareTaskDto {
@@ -95,12 +202,55 @@ export interface TimerUpdateDto {
   timerActive: boolean;
 }
 
+// A finished timer run, added to the focused time of a task
+export interface FocusedTimeDto {
+  focusedTimeMillis: number;
+}
+
+// How long the server keeps deleted tasks before removing them for good
+export interface TrashSettingsDto {
+  retentionDays: number;
+}
+
+// Secret link to an iCalendar feed of the tasks with a due date, which calendar apps keep in sync
+export interface CalendarFeedDto {
+  // Null while the feed is turned off
+  url: string | null;
+  component: 'VTODO' | 'VEVENT';
+}
+
 export interface TaskListDto {
   tasks: TaskDto[];
   pages: number;
   count: number;
 }
 
+// Project related interfaces
+export interface ProjectDto {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  name: string;
+  color: string;
+  icon: string;
+  archived: boolean;
+  sharedWith?: UserDto[];
+  owner?: boolean;
+}
+
+export interface CreateProjectDto {
+  name: string;
+  color?: string;
+  icon?: string;
+}
+
+export interface UpdateProjectDto {
+  name?: string;
+  color?: string;
+  icon?: string;
+  archived?: boolean;
+}
+
 // Achievement related interfaces
 export interface Achievement {
   id: number;
@@ -125,11 +275,39 @@ export interface Friendship {
   status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'BLOCKED';
 }
 
+// Comment related interfaces
+export interface CommentDto {
+  id: string;
+  taskId: string;
+  author: UserDto;
+  content: string;
+  // Usernames mentioned with @username
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCommentDto {
+  content: string;
+  mentions: string[];
+}
+
+export interface UpdateCommentDto {
+  content: string;
+  mentions: string[];
+}
+
+// Sent on /topic/task/{taskId}/comments whenever a comment of the task changes
+export interface CommentEventDto {
+  type: 'CREATED' | 'UPDATED' | 'DELETED';
+  comment: CommentDto;
+}
+
 // Notification related interfaces
 export interface NotificationDto {
   id: string;
   recipient: UserDto;
-  type: 'FRIEND_REQUEST' | 'FRIEND_REQUEST_ACCEPTED' | 'ACHIEVEMENT_UNLOCKED' | 'TASK_SHARED' | 'TASK_COMPLETED';
+  type: 'FRIEND_REQUEST' | 'FRIEND_REQUEST_ACCEPTED' | 'ACHIEVEMENT_UNLOCKED' | 'TASK_SHARED' | 'TASK_COMPLETED' | 'COMMENT_MENTION';
   message: string;
   payload: string;
   read: boolean;
@@ -139,7 +317,7 @@ export interface NotificationDto {
 export interface Notification {
   id: string;
   recipient: User;
-  type: 'FRIEND_REQUEST' | 'FRIEND_REQUEST_ACCEPTED' | 'ACHIEVEMENT_UNLOCKED' | 'TASK_SHARED' | 'TASK_COMPLETED';
+  type: 'FRIEND_REQUEST' | 'FRIEND_REQUEST_ACCEPTED' | 'ACHIEVEMENT_UNLOCKED' | 'TASK_SHARED' | 'TASK_COMPLETED' | 'COMMENT_MENTION';
   message: string;
   payload: string;
   read: boolean;
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { type TaskDto } from '../../types/models';
+import { buildICalendar, buildTaskComponent, escapeText, foldLine, formatDateTime } from '../icalendar';
+
+const NOW = new Date('2026-04-20T08:00:00Z');
+
+const task = (overrides: Partial<TaskDto> = {}): TaskDto => ({
+  id: 'task-1',
+  createdAt: '2026-04-01T10:00:00Z',
+  updatedAt: '2026-04-02T11:30:00Z',
+  name: 'Send invoice',
+  description: '',
+  dueDate: '2026-05-01T15:00:00Z',
+  urgency: 'MEDIUM',
+  completed: false,
+  ...overrides
+});
+
+// Local date and time, as due dates are entered
+const at = (year: number, month: number, day: number, hours: number, minutes: number): Date =>
+  new Date(year, month - 1, day, hours, minutes);
+
+// Undo the folding and split the calendar into its content lines
+const contentLines = (calendar: string): string[] =>
+  calendar.replace(/\r\n /g, '').split('\r\n').filter(line => line);
+
+const octets = (line: string): number => new TextEncoder().encode(line).length;
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+
+  it('leaves colons and quotes alone', () => {
+    expect(escapeText('Note: "quoted"')).toBe('Note: "quoted"');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(octets(line)).toBe(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds longer lines into parts of at most 75 octets, continued with a space', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const parts = foldLine(line).split('\r\n');
+    expect(parts.length).toBe(3);
+    parts.forEach(part => expect(octets(part)).toBeLessThanOrEqual(75));
+    parts.slice(1).forEach(part => expect(part.startsWith(' ')).toBe(true));
+    expect(octets(parts[0])).toBe(75);
+    expect(octets(parts[1])).toBe(75);
+    expect(foldLine(line).replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('counts octets, not characters, and never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(40)}${'🎉'.repeat(10)}`;
+    const folded = foldLine(line);
+    folded.split('\r\n').forEach(part => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    });
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+    // 8 octets of "SUMMARY:" leave room for 33 two-octet characters on the first line
+    expect(folded.split('\r\n')[0]).toBe(`SUMMARY:${'é'.repeat(33)}`);
+  });
+});
+
+describe('buildTaskComponent', () => {
+  it.each([
+    ['HIGH', 'PRIORITY:1'],
+    ['MEDIUM', 'PRIORITY:5'],
+    ['LOW', 'PRIORITY:9']
+  ] as const)('maps %s urgency to %s', (urgency, priority) => {
+    expect(buildTaskComponent(task({ urgency }), 'VTODO', NOW)).toContain(priority);
+  });
+
+  it('maps completion to STATUS for to-dos', () => {
+    expect(buildTaskComponent(task(), 'VTODO', NOW)).toContain('STATUS:NEEDS-ACTION');
+    const completed = buildTaskComponent(task({ completed: true }), 'VTODO', NOW);
+    expect(completed).toContain('STATUS:COMPLETED');
+    expect(completed).toContain('PERCENT-COMPLETE:100');
+  });
+
+  it('turns reminders into alarms relative to the due date or at a fixed time', () => {
+    const lines = buildTaskComponent(task({
+      reminders: [{ offsetMinutes: 0 }, { offsetMinutes: 90 }, { at: '2026-04-30T07:15:00Z' }]
+    }), 'VTODO', NOW);
+    expect(lines.filter(line => line.startsWith('TRIGGER'))).toEqual([
+      'TRIGGER;RELATED=END:PT0S',
+      'TRIGGER;RELATED=END:-PT90M',
+      'TRIGGER;VALUE=DATE-TIME:20260430T071500Z'
+    ]);
+    expect(lines.filter(line => line === 'BEGIN:VALARM')).toHaveLength(3);
+    expect(lines.filter(line => line === 'ACTION:DISPLAY')).toHaveLength(3);
+  });
+
+  it('leaves out alarms of completed tasks and relative alarms of tasks without a due date', () => {
+    expect(buildTaskComponent(task({ completed: true, reminders: [{ offsetMinutes: 30 }] }), 'VTODO', NOW))
+      .not.toContain('BEGIN:VALARM');
+    expect(buildTaskComponent(task({ dueDate: '', reminders: [{ offsetMinutes: 30 }] }), 'VTODO', NOW))
+      .not.toContain('BEGIN:VALARM');
+  });
+
+  it('exports a timed task as an event that ends at the due date and lasts the estimate', () => {
+    const lines = buildTaskComponent(task({ estimateMinutes: 90 }), 'VEVENT', NOW);
+    expect(lines).toContain('DTSTART:20260501T133000Z');
+    expect(lines).toContain('DTEND:20260501T150000Z');
+  });
+
+  it('gives events without an estimate 30 minutes', () => {
+    expect(buildTaskComponent(task(), 'VEVENT', NOW)).toContain('DTSTART:20260501T143000Z');
+  });
+
+  it('exports all-day tasks as all-day to-dos and events', () => {
+    const allDay = task({ dueDate: at(2026, 5, 31, 23, 59).toISOString(), allDay: true });
+    expect(buildTaskComponent(allDay, 'VTODO', NOW)).toContain('DUE;VALUE=DATE:20260531');
+
+    const event = buildTaskComponent(allDay, 'VEVENT', NOW);
+    expect(event).toContain('DTSTART;VALUE=DATE:20260531');
+    expect(event).toContain('DTEND;VALUE=DATE:20260601');
+    expect(event.some(line => line.startsWith('DTSTART:') || line.startsWith('DTEND:'))).toBe(false);
+  });
+
+  it('gives reminders of all-day tasks the time they have in the app', () => {
+    const allDay = task({ dueDate: at(2026, 5, 31, 23, 59).toISOString(), allDay: true, reminders: [{ offsetMinutes: 60 }] });
+    expect(buildTaskComponent(allDay, 'VEVENT', NOW))
+      .toContain(`TRIGGER;VALUE=DATE-TIME:${formatDateTime(at(2026, 5, 31, 22, 59))}`);
+  });
+
+  it('exports tasks due at a time with a UTC date-time, also at 23:59', () => {
+    const timed = task({ dueDate: at(2026, 5, 31, 23, 30).toISOString() });
+    expect(buildTaskComponent(timed, 'VTODO', NOW)).toContain(`DUE:${formatDateTime(at(2026, 5, 31, 23, 30))}`);
+
+    const endOfDay = task({ dueDate: at(2026, 5, 31, 23, 59).toISOString() });
+    expect(buildTaskComponent(endOfDay, 'VTODO', NOW)).toContain(`DUE:${formatDateTime(at(2026, 5, 31, 23, 59))}`);
+  });
+
+  it('leaves tasks without a due date out of events but not out of to-dos', () => {
+    expect(buildTaskComponent(task({ dueDate: '' }), 'VEVENT', NOW)).toEqual([]);
+    const todo = buildTaskComponent(task({ dueDate: '' }), 'VTODO', NOW);
+    expect(todo.some(line => line.startsWith('DUE'))).toBe(false);
+  });
+});
+
+describe('buildICalendar', () => {
+  it('builds a calendar of to-dos', () => {
+    const calendar = buildICalendar([
+      task({
+        name: 'Call Anna, Ben; Carl',
+        description: 'Agenda:\n- budget\n- dates',
+        urgency: 'HIGH',
+        tags: ['work', 'phone,calls'],
+        reminders: [{ offsetMinutes: 15 }]
+      }),
+      task({ id: 'task-2', name: 'Water plants', dueDate: '', urgency: 'LOW', completed: true })
+    ], 'VTODO', 'Work; home', NOW);
+
+    expect(calendar.endsWith('\r\n')).toBe(true);
+    expect(calendar.split('\r\n').every(line => octets(line) <= 75)).toBe(true);
+    expect(contentLines(calendar)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//TaskMaster//Tasks//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Work\\; home',
+      'BEGIN:VTODO',
+      'UID:task-1@taskmaster',
+      'DTSTAMP:20260420T080000Z',
+      'SUMMARY:Call Anna\\, Ben\\; Carl',
+      'DESCRIPTION:Agenda:\\n- budget\\n- dates',
+      'CREATED:20260401T100000Z',
+      'LAST-MODIFIED:20260402T113000Z',
+      'PRIORITY:1',
+      'CATEGORIES:work,phone\\,calls',
+      'DUE:20260501T150000Z',
+      'STATUS:NEEDS-ACTION',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Call Anna\\, Ben\\; Carl',
+      'TRIGGER;RELATED=END:-PT15M',
+      'END:VALARM',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:task-2@taskmaster',
+      'DTSTAMP:20260420T080000Z',
+      'SUMMARY:Water plants',
+      'CREATED:20260401T100000Z',
+      'LAST-MODIFIED:20260402T113000Z',
+      'PRIORITY:9',
+      'STATUS:COMPLETED',
+      'PERCENT-COMPLETE:100',
+      'END:VTODO',
+      'END:VCALENDAR'
+    ]);
+  });
+
+  it('builds a calendar of timed and all-day events', () => {
+    const calendar = buildICalendar([
+      task({ estimateMinutes: 60 }),
+      task({ id: 'task-2', name: 'Birthday', dueDate: at(2026, 6, 12, 23, 59).toISOString(), allDay: true }),
+      task({ id: 'task-3', name: 'Someday', dueDate: '' })
+    ], 'VEVENT', 'TaskMaster', NOW);
+
+    const lines = contentLines(calendar);
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines.slice(lines.indexOf('UID:task-1@taskmaster'))).toEqual(expect.arrayContaining([
+      'DTSTART:20260501T140000Z',
+      'DTEND:20260501T150000Z'
+    ]));
+    expect(lines.slice(lines.indexOf('UID:task-2@taskmaster'), lines.lastIndexOf('END:VEVENT'))).toEqual([
+      'UID:task-2@taskmaster',
+      'DTSTAMP:20260420T080000Z',
+      'SUMMARY:Birthday',
+      'CREATED:20260401T100000Z',
+      'LAST-MODIFIED:20260402T113000Z',
+      'PRIORITY:5',
+      'DTSTART;VALUE=DATE:20260612',
+      'DTEND;VALUE=DATE:20260613',
+      'STATUS:CONFIRMED'
+    ]);
+    expect(calendar).not.toContain('Someday');
+  });
+
+  it('folds long descriptions', () => {
+    const calendar = buildICalendar([task({ description: 'Lorem ipsum '.repeat(20) })], 'VTODO', 'TaskMaster', NOW);
+    expect(calendar).toContain('\r\n ');
+    expect(calendar.split('\r\n').every(line => octets(line) <= 75)).toBe(true);
+    expect(contentLines(calendar)).toContain(`DESCRIPTION:${'Lorem ipsum '.repeat(20)}`);
+  });
+});
@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import DOMPurify from 'dompurify';
+import { renderMarkdown, toggleTaskListItem } from '../markdown';
+
+// Parse rendered HTML so assertions look at elements and attributes, not at text that merely looks alike
+const render = (source: string, interactive = false): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(source, interactive);
+  return container;
+};
+
+const allAttributes = (container: HTMLElement): string[] =>
+  [...container.querySelectorAll('*')].flatMap(element => element.getAttributeNames());
+
+describe('renderMarkdown', () => {
+  it('renders common Markdown', () => {
+    const container = render('# Title\n\n**bold** and *italic*\n\n- one\n- two');
+    expect(container.querySelector('h1')?.textContent).toBe('Title');
+    expect(container.querySelector('strong')?.textContent).toBe('bold');
+    expect(container.querySelectorAll('li')).toHaveLength(2);
+  });
+
+  it('shows raw script tags as text', () => {
+    const container = render('<script>alert(1)</script>');
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.textContent).toContain('<script>alert(1)</script>');
+  });
+
+  it('does not render raw HTML with event handlers', () => {
+    const container = render('<img src="x" onerror="alert(1)">\n\n<div onmouseover="alert(1)">hover</div>');
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('div')).toBeNull();
+    expect(allAttributes(container).filter(name => name.startsWith('on'))).toEqual([]);
+  });
+
+  it('removes images, which could load content from elsewhere', () => {
+    const container = render('![x](https://example.com/x.png "title")');
+    expect(container.querySelector('img')).toBeNull();
+  });
+
+  it.each([
+    '[click](javascript:alert(1))',
+    '[click](JaVaScRiPt:alert(1))',
+    '[click](  javascript:alert(1))',
+    '[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+    '<javascript:alert(1)>'
+  ])('removes dangerous link targets from %s', (source) => {
+    const container = render(source);
+    container.querySelectorAll('a').forEach(link => {
+      expect(link.getAttribute('href') ?? '').not.toMatch(/^\s*(javascript|data):/i);
+    });
+  });
+
+  it('keeps safe links and opens them in a new tab', () => {
+    const link = render('[docs](https://example.com/docs)').querySelector('a');
+    expect(link?.getAttribute('href')).toBe('https://example.com/docs');
+    expect(link?.getAttribute('target')).toBe('_blank');
+    expect(link?.getAttribute('rel')).toBe('noopener noreferrer');
+  });
+
+  it('escapes attribute breakouts in link titles', () => {
+    const container = render('[x](https://example.com "a\\" onclick=\\"alert(1)")');
+    expect(allAttributes(container).filter(name => name.startsWith('on'))).toEqual([]);
+  });
+
+  it('renders task list items as disabled checkboxes unless interactive', () => {
+    const source = '- [ ] open\n- [x] done';
+
+    const readOnly = render(source).querySelectorAll('input');
+    expect(readOnly).toHaveLength(2);
+    expect(readOnly[0].hasAttribute('disabled')).toBe(true);
+    expect(readOnly[1].hasAttribute('checked')).toBe(true);
+
+    const interactive = render(source, true).querySelectorAll('input');
+    expect(interactive).toHaveLength(2);
+    expect(interactive[0].hasAttribute('disabled')).toBe(false);
+  });
+
+  it('does not change the shared DOMPurify instance', () => {
+    render('[docs](https://example.com)');
+    const html = DOMPurify.sanitize('<a href="https://example.com">docs</a>');
+    expect(html).not.toContain('target=');
+  });
+});
+
+describe('toggleTaskListItem', () => {
+  it('toggles the checkbox with the given index', () => {
+    const source = '- [ ] first\n- [x] second\n- [ ] third';
+    expect(toggleTaskListItem(source, 0)).toBe('- [x] first\n- [x] second\n- [ ] third');
+    expect(toggleTaskListItem(source, 1)).toBe('- [ ] first\n- [ ] second\n- [ ] third');
+  });
+
+  it('counts ordered and quoted items like the renderer', () => {
+    const source = '1. [ ] ordered\n> - [ ] quoted';
+    expect(toggleTaskListItem(source, 1)).toBe('1. [ ] ordered\n> - [x] quoted');
+  });
+
+  it('skips checkboxes inside code blocks', () => {
+    const source = '```\n- [ ] code\n```\n- [ ] real';
+    expect(toggleTaskListItem(source, 0)).toBe('```\n- [ ] code\n```\n- [x] real');
+    expect(render(source).querySelectorAll('input')).toHaveLength(1);
+  });
+
+  it('skips checkboxes inside indented code blocks', () => {
+    const source = 'Notes:\n\n    - [ ] code\n\n- [ ] real';
+    expect(toggleTaskListItem(source, 0)).toBe('Notes:\n\n    - [ ] code\n\n- [x] real');
+    expect(render(source).querySelectorAll('input')).toHaveLength(1);
+  });
+
+  it('counts nested items and items after link definitions like the renderer', () => {
+    const source = '- [ ] parent\n  - [ ] child\n\n[docs]: https://example.com\n\n- [ ] last';
+    expect(toggleTaskListItem(source, 1)).toBe('- [ ] parent\n  - [x] child\n\n[docs]: https://example.com\n\n- [ ] last');
+    expect(toggleTaskListItem(source, 2)).toBe('- [ ] parent\n  - [ ] child\n\n[docs]: https://example.com\n\n- [x] last');
+    expect(render(source).querySelectorAll('input')).toHaveLength(3);
+  });
+
+  it('leaves the text unchanged for an unknown index', () => {
+    expect(toggleTaskListItem('- [ ] only', 3)).toBe('- [ ] only');
+  });
+
+  it('does not treat brackets without a following space as a checkbox', () => {
+    expect(toggleTaskListItem('- [ ]no space', 0)).toBe('- [ ]no space');
+  });
+});
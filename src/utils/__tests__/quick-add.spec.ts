@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from '../quick-add';
+
+// Wednesday, April 15th 2026, 10:00 local time
+const NOW = new Date(2026, 3, 15, 10, 0);
+
+const parse = (input: string, now: Date = NOW) =>
+  parseQuickAdd(input, { now, projects: [{ id: 'project-1', name: 'Home Office' }, { id: 'project-2', name: 'Garden' }] });
+
+const dueOf = (input: string, now: Date = NOW) => parse(input, now).task.dueDate;
+
+describe('parseQuickAdd', () => {
+  it('reads a date, a time, the urgency and tags and keeps the rest as the name', () => {
+    const { task, tokens } = parse('Call Bob tomorrow 3pm !high #work');
+    expect(task).toEqual({
+      name: 'Call Bob',
+      description: '',
+      dueDate: '2026-04-16T15:00',
+      allDay: false,
+      urgency: 'HIGH',
+      subtasks: [],
+      tags: ['work']
+    });
+    expect(tokens).toEqual([
+      { type: 'date', text: 'tomorrow', start: 9, end: 17 },
+      { type: 'time', text: '3pm', start: 18, end: 21 },
+      { type: 'urgency', text: '!high', start: 22, end: 27 },
+      { type: 'tag', text: '#work', start: 28, end: 33 }
+    ]);
+  });
+
+  it('leaves plain text alone', () => {
+    const { task, tokens } = parse('Buy milk');
+    expect(task.name).toBe('Buy milk');
+    expect(task.dueDate).toBe('');
+    expect(task.urgency).toBe('MEDIUM');
+    expect(tokens).toEqual([]);
+  });
+
+  describe('dates', () => {
+    it('makes dates without a time due all day, until the end of the day', () => {
+      expect(parse('Report today').task).toMatchObject({ dueDate: '2026-04-15T23:59', allDay: true });
+      expect(parse('Report tmrw').task).toMatchObject({ dueDate: '2026-04-16T23:59', allDay: true });
+      expect(parse('Report eod').task).toMatchObject({ dueDate: '2026-04-15T23:59', allDay: true });
+    });
+
+    it('reads tonight as 8pm', () => {
+      expect(parse('Read tonight').task).toMatchObject({ dueDate: '2026-04-15T20:00', allDay: false });
+    });
+
+    it('reads weekdays as the next such day, a week ahead on the same weekday', () => {
+      expect(dueOf('Pay rent friday')).toBe('2026-04-17T23:59');
+      expect(dueOf('Pay rent wednesday')).toBe('2026-04-22T23:59');
+    });
+
+    it('reads "next" weekdays, week and month', () => {
+      expect(dueOf('Plan next friday')).toBe('2026-04-24T23:59');
+      expect(dueOf('Plan next monday')).toBe('2026-04-20T23:59');
+      expect(dueOf('Plan next week')).toBe('2026-04-20T23:59');
+      expect(dueOf('Plan next month')).toBe('2026-05-01T23:59');
+    });
+
+    it('reads relative amounts in words and digits', () => {
+      expect(dueOf('Call in 3 days')).toBe('2026-04-18T23:59');
+      expect(dueOf('Call in a week')).toBe('2026-04-22T23:59');
+      expect(dueOf('Call in two months')).toBe('2026-06-15T23:59');
+    });
+
+    it('reads month names in both orders and moves past days to next year', () => {
+      expect(dueOf('Renew oct 21')).toBe('2026-10-21T23:59');
+      expect(dueOf('Renew 21st october')).toBe('2026-10-21T23:59');
+      expect(dueOf('Renew sept 3')).toBe('2026-09-03T23:59');
+      expect(dueOf('Renew jan 5')).toBe('2027-01-05T23:59');
+    });
+
+    it('reads ISO dates', () => {
+      expect(dueOf('Submit 2026-05-01')).toBe('2026-05-01T23:59');
+    });
+
+    it('keeps days that do not exist in the name', () => {
+      expect(parse('Party feb 30').task).toMatchObject({ name: 'Party feb 30', dueDate: '' });
+      expect(parse('Party 2026-02-30').task).toMatchObject({ name: 'Party 2026-02-30', dueDate: '' });
+    });
+
+    it('accepts "on", "by" and "at" in front of dates and times', () => {
+      const { task, tokens } = parse('Dentist on friday at 5pm');
+      expect(task.name).toBe('Dentist');
+      expect(task.dueDate).toBe('2026-04-17T17:00');
+      expect(tokens.map(token => token.text)).toEqual(['on friday', 'at 5pm']);
+      expect(parse('Taxes by 2026-05-01').task.name).toBe('Taxes');
+    });
+
+    it('keeps prepositions without a date or time in the name', () => {
+      expect(parse('Sit on chair').task.name).toBe('Sit on chair');
+    });
+
+    it('ignores punctuation after a date', () => {
+      const { task, tokens } = parse('Meeting tomorrow, bring slides');
+      expect(task.name).toBe('Meeting bring slides');
+      expect(tokens[0].text).toBe('tomorrow,');
+    });
+
+    it('uses only the first date and keeps later ones in the name', () => {
+      expect(parse('Move friday to monday').task).toMatchObject({ name: 'Move to monday', dueDate: '2026-04-17T23:59' });
+    });
+  });
+
+  describe('times', () => {
+    it('reads 12 and 24 hour times', () => {
+      expect(dueOf('Call tomorrow 3:30pm')).toBe('2026-04-16T15:30');
+      expect(dueOf('Call tomorrow 3 pm')).toBe('2026-04-16T15:00');
+      expect(dueOf('Call tomorrow 12am')).toBe('2026-04-16T00:00');
+      expect(dueOf('Call tomorrow 15:00')).toBe('2026-04-16T15:00');
+      expect(dueOf('Call tomorrow noon')).toBe('2026-04-16T12:00');
+    });
+
+    it('keeps invalid times in the name', () => {
+      expect(parse('Call 13pm').task).toMatchObject({ name: 'Call 13pm', dueDate: '' });
+      expect(parse('Call 24:00').task).toMatchObject({ name: 'Call 24:00', dueDate: '' });
+    });
+
+    it('keeps bare numbers in the name', () => {
+      expect(parse('Buy 3 apples').task).toMatchObject({ name: 'Buy 3 apples', dueDate: '' });
+    });
+
+    it('does not make tasks due at a time all day, even at the end of the day', () => {
+      expect(parse('Call tomorrow 11:59pm').task).toMatchObject({ dueDate: '2026-04-16T23:59', allDay: false });
+      expect(parse('Call').task.allDay).toBe(false);
+    });
+
+    it('reads a time on its own as the next time that time of day comes around', () => {
+      expect(dueOf('Standup 11am')).toBe('2026-04-15T11:00');
+      expect(dueOf('Standup 9am')).toBe('2026-04-16T09:00');
+    });
+  });
+
+  describe('urgency', () => {
+    it.each([
+      ['!high', 'HIGH'],
+      ['!h', 'HIGH'],
+      ['!urgent', 'HIGH'],
+      ['!med', 'MEDIUM'],
+      ['!low', 'LOW'],
+      ['!L', 'LOW']
+    ])('reads %s as %s', (token, urgency) => {
+      expect(parse(`Task ${token}`).task.urgency).toBe(urgency);
+    });
+
+    it('keeps unknown and repeated urgencies in the name', () => {
+      expect(parse('Task !soon').task).toMatchObject({ name: 'Task !soon', urgency: 'MEDIUM' });
+      expect(parse('Task !high !low').task).toMatchObject({ name: 'Task !low', urgency: 'HIGH' });
+    });
+  });
+
+  describe('tags and projects', () => {
+    it('normalizes tags and drops duplicates', () => {
+      expect(parse('Task #Work #home #work').task.tags).toEqual(['work', 'home']);
+    });
+
+    it('keeps a lone hash in the name', () => {
+      expect(parse('Fix issue #').task).toMatchObject({ name: 'Fix issue #', tags: [] });
+    });
+
+    it('matches projects by name, ignoring case and spaces written as dashes', () => {
+      expect(parse('Water plants @garden').task.projectId).toBe('project-2');
+      expect(parse('Print @home-office').task.projectId).toBe('project-1');
+    });
+
+    it('keeps unknown projects, such as mentions, in the name', () => {
+      const { task } = parse('Email @alice');
+      expect(task.name).toBe('Email @alice');
+      expect(task.projectId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { type RecurrenceRuleDto, type TaskDto } from '../../types/models';
+import { buildNextOccurrence, describeRecurrence, getNextOccurrence } from '../recurrence';
+import { formatDateTimeInput } from '../formatters';
+
+const monthly = (overrides: Partial<RecurrenceRuleDto> = {}): RecurrenceRuleDto =>
+  ({ frequency: 'MONTHLY', interval: 1, monthlyMode: 'BY_MONTH_DAY', end: 'NEVER', ...overrides });
+
+const yearly = (overrides: Partial<RecurrenceRuleDto> = {}): RecurrenceRuleDto =>
+  ({ frequency: 'YEARLY', interval: 1, end: 'NEVER', ...overrides });
+
+// Local date and time, as due dates are entered
+const at = (year: number, month: number, day: number, hours = 9, minutes = 0): Date =>
+  new Date(year, month - 1, day, hours, minutes);
+
+const task = (dueDate: Date, recurrence: RecurrenceRuleDto): TaskDto => ({
+  id: 'task-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  name: 'Pay rent',
+  description: '',
+  dueDate: formatDateTimeInput(dueDate),
+  urgency: 'MEDIUM',
+  completed: false,
+  recurrence
+});
+
+// Complete a recurring task again and again and collect the due dates of the occurrences
+const occurrences = (first: TaskDto, count: number): string[] => {
+  const dates: string[] = [];
+  let current: TaskDto | null = first;
+  for (let i = 0; i < count && current; i++) {
+    const next = buildNextOccurrence(current);
+    current = next ? { ...current, dueDate: next.dueDate || '', recurrence: next.recurrence } : null;
+    if (current) dates.push(current.dueDate);
+  }
+  return dates;
+};
+
+describe('getNextOccurrence', () => {
+  it('clamps the 31st to the last day of shorter months', () => {
+    const rule = monthly({ byMonthDay: 31 });
+    expect(getNextOccurrence(rule, at(2026, 1, 31))).toEqual(at(2026, 2, 28));
+    expect(getNextOccurrence(rule, at(2026, 3, 31))).toEqual(at(2026, 4, 30));
+  });
+
+  it('returns to the 31st after a clamped month', () => {
+    expect(getNextOccurrence(monthly({ byMonthDay: 31 }), at(2026, 2, 28))).toEqual(at(2026, 3, 31));
+  });
+
+  it('uses the 29th of February in leap years', () => {
+    expect(getNextOccurrence(monthly({ byMonthDay: 30 }), at(2028, 1, 30))).toEqual(at(2028, 2, 29));
+    expect(getNextOccurrence(monthly({ byMonthDay: 30 }), at(2027, 1, 30))).toEqual(at(2027, 2, 28));
+  });
+
+  it('repeats on the last day of every month', () => {
+    const rule = monthly({ byMonthDay: -1 });
+    expect(getNextOccurrence(rule, at(2028, 1, 31))).toEqual(at(2028, 2, 29));
+    expect(getNextOccurrence(rule, at(2028, 2, 29))).toEqual(at(2028, 3, 31));
+  });
+
+  it('keeps the time of day', () => {
+    expect(getNextOccurrence(monthly({ byMonthDay: 31 }), at(2026, 1, 31, 17, 45))).toEqual(at(2026, 2, 28, 17, 45));
+  });
+
+  it('moves a yearly task on the 29th of February to the 28th, and back in the next leap year', () => {
+    const rule = yearly({ byMonthDay: 29 });
+    expect(getNextOccurrence(rule, at(2028, 2, 29))).toEqual(at(2029, 2, 28));
+    expect(getNextOccurrence(yearly({ byMonthDay: 29, interval: 4 }), at(2028, 2, 29))).toEqual(at(2032, 2, 29));
+    expect(getNextOccurrence(rule, at(2031, 2, 28))).toEqual(at(2032, 2, 29));
+  });
+
+  it('ends after the last counted occurrence', () => {
+    expect(getNextOccurrence(monthly({ byMonthDay: 31, end: 'COUNT', count: 1 }), at(2026, 1, 31))).toBeNull();
+  });
+});
+
+describe('buildNextOccurrence', () => {
+  it('keeps a monthly task without a day of month on its first day after a short month', () => {
+    expect(occurrences(task(at(2026, 1, 31), monthly()), 4)).toEqual([
+      '2026-02-28T09:00',
+      '2026-03-31T09:00',
+      '2026-04-30T09:00',
+      '2026-05-31T09:00'
+    ]);
+  });
+
+  it('stores the day of month in the rule of the next occurrence', () => {
+    const next = buildNextOccurrence(task(at(2026, 1, 31), monthly()));
+    expect(next?.recurrence?.byMonthDay).toBe(31);
+    expect(describeRecurrence(next!.recurrence!)).toBe('every month on day 31');
+  });
+
+  it('keeps a yearly task on the 29th of February in leap years', () => {
+    expect(occurrences(task(at(2028, 2, 29), yearly()), 4)).toEqual([
+      '2029-02-28T09:00',
+      '2030-02-28T09:00',
+      '2031-02-28T09:00',
+      '2032-02-29T09:00'
+    ]);
+  });
+
+  it('does not add a day of month to monthly rules by weekday', () => {
+    const rule = monthly({ monthlyMode: 'BY_WEEKDAY', byWeekday: ['FR'], bySetPosition: -1 });
+    const next = buildNextOccurrence(task(at(2026, 1, 30), rule));
+    expect(next?.dueDate).toBe('2026-02-27T09:00');
+    expect(next?.recurrence?.byMonthDay).toBeUndefined();
+  });
+
+  it('counts down the remaining occurrences', () => {
+    const next = buildNextOccurrence(task(at(2026, 1, 31), monthly({ end: 'COUNT', count: 3 })));
+    expect(next?.recurrence?.count).toBe(2);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { type TaskDto } from '../../types/models';
+import { exportTasksAsJson } from '../task-export';
+import { candidatesFromJson } from '../task-import';
+
+const task = (overrides: Partial<TaskDto> = {}): TaskDto => ({
+  id: 'task-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+  name: 'Write report',
+  description: 'Quarterly numbers',
+  dueDate: '2026-03-31T17:00',
+  urgency: 'HIGH',
+  importance: 'LOW',
+  completed: false,
+  owner: true,
+  pomodoroTimeMillis: 50 * 60 * 1000,
+  remainingTimeMillis: 12 * 60 * 1000,
+  timerActive: false,
+  subtasks: [{ id: 'subtask-1', title: 'Collect numbers', completed: true }],
+  recurrence: { frequency: 'MONTHLY', interval: 1, monthlyMode: 'BY_MONTH_DAY', byMonthDay: 31, end: 'NEVER' },
+  tags: ['work'],
+  projectId: 'project-1',
+  blockedBy: [],
+  reminders: [{ offsetMinutes: 30 }],
+  estimateMinutes: 90,
+  focusedTimeMillis: 75 * 60 * 1000,
+  ...overrides
+});
+
+const roundTrip = (tasks: TaskDto[]) => candidatesFromJson(exportTasksAsJson(tasks));
+
+describe('candidatesFromJson', () => {
+  it('keeps every field a user can set after an export', () => {
+    const [candidate] = roundTrip([task()]);
+    expect(candidate.error).toBeNull();
+    expect(candidate.warnings).toEqual([]);
+    expect(candidate.task).toEqual({
+      name: 'Write report',
+      description: 'Quarterly numbers',
+      dueDate: '2026-03-31T17:00',
+      allDay: false,
+      urgency: 'HIGH',
+      importance: 'LOW',
+      subtasks: [{ title: 'Collect numbers', completed: true }],
+      recurrence: { frequency: 'MONTHLY', interval: 1, monthlyMode: 'BY_MONTH_DAY', byMonthDay: 31, end: 'NEVER' },
+      tags: ['work'],
+      projectId: 'project-1',
+      blockedBy: [],
+      reminders: [{ offsetMinutes: 30 }],
+      estimateMinutes: 90,
+      completed: false,
+      sourceId: 'task-1',
+      pomodoroTimeMillis: 50 * 60 * 1000,
+      focusedTimeMillis: 75 * 60 * 1000
+    });
+  });
+
+  it('keeps dependencies between tasks of the file by their exported IDs', () => {
+    const candidates = roundTrip([
+      task({ id: 'a', name: 'Blocker' }),
+      task({ id: 'b', name: 'Blocked', blockedBy: ['a'] })
+    ]);
+    expect(candidates[1].task.blockedBy).toEqual(['a']);
+    expect(candidates[1].task.sourceId).toBe('b');
+    expect(candidates[1].warnings).toEqual([]);
+  });
+
+  it('leaves out dependencies on tasks outside the file with a warning', () => {
+    const [candidate] = roundTrip([task({ id: 'b', blockedBy: ['a', 'missing'] })]);
+    expect(candidate.task.blockedBy).toEqual([]);
+    expect(candidate.warnings).toEqual(['Dependencies on tasks outside the file were left out']);
+  });
+
+  it('keeps completed tasks completed', () => {
+    expect(roundTrip([task({ completed: true })])[0].task.completed).toBe(true);
+  });
+
+  it('rejects tasks with an invalid due date', () => {
+    const [candidate] = roundTrip([task({ dueDate: 'next tuesday' })]);
+    expect(candidate.error).toBe('Unknown due date "next tuesday"');
+  });
+
+  it('reads date-only due dates as all day, until the end of the day', () => {
+    const [candidate] = roundTrip([task({ dueDate: '2026-03-31' })]);
+    expect(candidate.task.dueDate).toBe('2026-03-31T23:59');
+    expect(candidate.task.allDay).toBe(true);
+  });
+
+  it('keeps all-day tasks all day', () => {
+    const [candidate] = roundTrip([task({ dueDate: new Date(2026, 2, 31, 23, 59).toISOString(), allDay: true })]);
+    expect(candidate.task.dueDate).toBe('2026-03-31T23:59');
+    expect(candidate.task.allDay).toBe(true);
+  });
+
+  it('imports tasks without a due date', () => {
+    const [candidate] = roundTrip([task({ dueDate: '' })]);
+    expect(candidate.error).toBeNull();
+    expect(candidate.task.dueDate).toBe('');
+  });
+
+  it('reads a plain list of tasks', () => {
+    const candidates = candidatesFromJson(JSON.stringify([task({ name: 'One' }), task({ name: ' ' })]));
+    expect(candidates.map(candidate => candidate.row)).toEqual([1, 2]);
+    expect(candidates[1].error).toBe('The task has no name');
+  });
+
+  it('rejects files without a list of tasks', () => {
+    expect(() => candidatesFromJson('{"version": 1}')).toThrow('The file does not contain a list of tasks');
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, expect, it } from 'vitest';
+import { type TaskDto, type UserDto } from '../../types/models';
+import { DEFAULT_TASK_FILTERS } from '../task-filters';
+import {
+  type TaskQueryContext,
+  combineQueries,
+  evaluateTaskQuery,
+  filtersToTaskQuery,
+  getQuerySuggestions,
+  parseTaskQuery
+} from '../task-query';
+
+// Wednesday, April 15th 2026, 10:00 local time
+const NOW = new Date(2026, 3, 15, 10, 0);
+
+const PROJECTS = [{ id: 'project-1', name: 'Home Office' }, { id: 'project-2', name: 'Garden' }];
+
+const BOB: UserDto = {
+  id: 'user-2',
+  createdAt: '2026-01-01T00:00:00Z',
+  firstname: 'Bob',
+  lastname: 'Miller',
+  username: 'bob',
+  email: 'bob@example.com',
+  xp: 0
+};
+
+const task = (overrides: Partial<TaskDto> = {}): TaskDto => ({
+  id: 'task-1',
+  createdAt: '2026-04-01T10:00:00Z',
+  updatedAt: '2026-04-02T11:30:00Z',
+  name: 'Send invoice',
+  description: '',
+  dueDate: '',
+  urgency: 'MEDIUM',
+  completed: false,
+  ...overrides
+});
+
+// Local date and time, as due dates are entered
+const at = (year: number, month: number, day: number, hours = 23, minutes = 59): string =>
+  new Date(year, month - 1, day, hours, minutes).toISOString();
+
+const context: TaskQueryContext = { now: NOW, isBlocked: t => (t.blockedBy?.length ?? 0) > 0 };
+
+const parse = (input: string) => parseTaskQuery(input, { projects: PROJECTS });
+
+const matches = (input: string, target: TaskDto): boolean => {
+  const { query, error } = parse(input);
+  if (error) throw new Error(error.message);
+  return evaluateTaskQuery(query!, target, context);
+};
+
+describe('parseTaskQuery', () => {
+  it('returns no query for empty input', () => {
+    expect(parse('')).toEqual({ query: null, error: null });
+    expect(parse('   ')).toEqual({ query: null, error: null });
+  });
+
+  it('combines words with AND and lowercases them', () => {
+    expect(parse('Send Invoice').query).toEqual({
+      type: 'and',
+      children: [{ type: 'text', value: 'send' }, { type: 'text', value: 'invoice' }]
+    });
+    expect(parse('send AND invoice').query).toEqual(parse('send invoice').query);
+  });
+
+  describe('quoting', () => {
+    it('keeps quoted phrases together', () => {
+      expect(parse('"Send the Invoice"').query).toEqual({ type: 'text', value: 'send the invoice' });
+    });
+
+    it('searches quoted flag names and operators as words', () => {
+      expect(parse('completed').query).toEqual({ type: 'flag', flag: 'completed' });
+      expect(parse('"completed"').query).toEqual({ type: 'text', value: 'completed' });
+      expect(parse('"OR"').query).toEqual({ type: 'text', value: 'or' });
+    });
+
+    it('reads quoted field values', () => {
+      expect(parse('project:"Home Office"').query).toEqual({ type: 'project', projectId: 'project-1' });
+    });
+
+    it('reports a missing closing quote up to the end of the input', () => {
+      expect(parse('invoice "due soon')).toEqual({
+        query: null,
+        error: { message: 'Missing closing quote', start: 8, end: 17 }
+      });
+    });
+  });
+
+  describe('negation', () => {
+    it('negates terms with a dash or NOT', () => {
+      const expected = { type: 'not', child: { type: 'text', value: 'invoice' } };
+      expect(parse('-invoice').query).toEqual(expected);
+      expect(parse('NOT invoice').query).toEqual(expected);
+    });
+
+    it('negates fields, flags and groups', () => {
+      expect(parse('-tag:work').query).toEqual({ type: 'not', child: { type: 'tag', value: 'work' } });
+      expect(parse('-blocked').query).toEqual({ type: 'not', child: { type: 'flag', flag: 'blocked' } });
+      expect(parse('-(a OR b)').query).toEqual({
+        type: 'not',
+        child: { type: 'or', children: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] }
+      });
+    });
+
+    it('reads a dash followed by a space as a word', () => {
+      expect(parse('a - b').query).toEqual({
+        type: 'and',
+        children: [{ type: 'text', value: 'a' }, { type: 'text', value: '-' }, { type: 'text', value: 'b' }]
+      });
+    });
+
+    it('reads "no" as a negated flag', () => {
+      expect(parse('completed:no').query).toEqual({ type: 'not', child: { type: 'flag', flag: 'completed' } });
+      expect(parse('shared:yes').query).toEqual({ type: 'flag', flag: 'shared' });
+    });
+  });
+
+  describe('precedence', () => {
+    it('binds terms next to each other tighter than OR', () => {
+      expect(parse('a b OR c').query).toEqual({
+        type: 'or',
+        children: [
+          { type: 'and', children: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] },
+          { type: 'text', value: 'c' }
+        ]
+      });
+    });
+
+    it('binds NOT tighter than OR', () => {
+      expect(parse('-a OR b').query).toEqual({
+        type: 'or',
+        children: [{ type: 'not', child: { type: 'text', value: 'a' } }, { type: 'text', value: 'b' }]
+      });
+    });
+
+    it('groups with parentheses', () => {
+      expect(parse('a (b OR c)').query).toEqual({
+        type: 'and',
+        children: [
+          { type: 'text', value: 'a' },
+          { type: 'or', children: [{ type: 'text', value: 'b' }, { type: 'text', value: 'c' }] }
+        ]
+      });
+    });
+
+    it('only treats uppercase operators as operators', () => {
+      expect(parse('a or b').query).toEqual({
+        type: 'and',
+        children: [{ type: 'text', value: 'a' }, { type: 'text', value: 'or' }, { type: 'text', value: 'b' }]
+      });
+    });
+  });
+
+  describe('fields', () => {
+    it('reads urgencies with comparisons and aliases', () => {
+      expect(parse('urgency:high').query).toEqual({ type: 'urgency', op: '=', value: 'HIGH' });
+      expect(parse('urgency:>=med').query).toEqual({ type: 'urgency', op: '>=', value: 'MEDIUM' });
+    });
+
+    it('reads due keywords, relative offsets and dates', () => {
+      expect(parse('due:today').query).toEqual({ type: 'due', op: '=', value: { kind: 'keyword', keyword: 'TODAY' } });
+      expect(parse('due:none').query).toEqual({ type: 'due', op: '=', value: { kind: 'keyword', keyword: 'NO_DATE' } });
+      expect(parse('due:<7d').query).toEqual({ type: 'due', op: '<', value: { kind: 'relative', hours: 168 } });
+      expect(parse('due:>-2w').query).toEqual({ type: 'due', op: '>', value: { kind: 'relative', hours: -336 } });
+      expect(parse('due:<=2026-04-30').query).toEqual({ type: 'due', op: '<=', value: { kind: 'date', date: '2026-04-30' } });
+    });
+
+    it('reads tags, projects and states', () => {
+      expect(parse('#Work').query).toEqual({ type: 'tag', value: 'work' });
+      expect(parse('tag:Deep Work').query).toEqual({
+        type: 'and',
+        children: [{ type: 'tag', value: 'deep' }, { type: 'text', value: 'work' }]
+      });
+      expect(parse('project:garden').query).toEqual({ type: 'project', projectId: 'project-2' });
+      expect(parse('project:none').query).toEqual({ type: 'project', projectId: null });
+      expect(parse('is:Overdue').query).toEqual({ type: 'flag', flag: 'overdue' });
+    });
+
+    it('reads keys in any case', () => {
+      expect(parse('URGENCY:low').query).toEqual({ type: 'urgency', op: '=', value: 'LOW' });
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['urgency:', 'Missing value for "urgency:"'],
+      ['urgency:extreme', 'Unknown urgency "extreme", use low, medium or high'],
+      ['due:<today', '"today" cannot be compared, use due:today'],
+      ['due:2026-02-30', 'Unknown due date "2026-02-30", use today, overdue, week, none, 7d or YYYY-MM-DD'],
+      ['project:moon', 'Unknown project "moon"'],
+      ['is:done', 'Unknown state "done", use completed, blocked, overdue, shared, recurring'],
+      ['completed:maybe', 'Expected yes or no, got "maybe"'],
+      ['color:red', 'Unknown filter "color:"'],
+      ['(a OR b', 'Missing closing parenthesis'],
+      ['a)', 'Unexpected closing parenthesis'],
+      ['()', 'Empty parentheses'],
+      ['OR a', '"OR" needs a search term before it'],
+      ['a OR )', 'Expected a search term after "OR"'],
+      ['a OR', 'Query ends too early'],
+      ['NOT', 'Query ends too early']
+    ])('reports "%s"', (input, message) => {
+      const { query, error } = parse(input);
+      expect(query).toBeNull();
+      expect(error?.message).toBe(message);
+    });
+
+    it('points at the offending term', () => {
+      expect(parse('invoice color:red').error).toMatchObject({ start: 8, end: 17 });
+      expect(parse('a OR )').error).toMatchObject({ start: 5, end: 6 });
+    });
+  });
+});
+
+describe('evaluateTaskQuery', () => {
+  it('matches text in the name or the description, ignoring case', () => {
+    const target = task({ name: 'Send invoice', description: 'To ACME Corp' });
+    expect(matches('INVOICE', target)).toBe(true);
+    expect(matches('acme', target)).toBe(true);
+    expect(matches('"invoice to"', target)).toBe(false);
+    expect(matches('receipt', target)).toBe(false);
+  });
+
+  it('applies AND, OR and NOT', () => {
+    const target = task({ name: 'Send invoice', tags: ['work'] });
+    expect(matches('send #work', target)).toBe(true);
+    expect(matches('send #home', target)).toBe(false);
+    expect(matches('receipt OR #work', target)).toBe(true);
+    expect(matches('-#work', target)).toBe(false);
+    expect(matches('receipt OR (send -#home)', target)).toBe(true);
+  });
+
+  it('compares urgencies', () => {
+    const target = task({ urgency: 'MEDIUM' });
+    expect(matches('urgency:medium', target)).toBe(true);
+    expect(matches('urgency:>=medium', target)).toBe(true);
+    expect(matches('urgency:>medium', target)).toBe(false);
+    expect(matches('urgency:<high', target)).toBe(true);
+  });
+
+  it('compares due dates with relative offsets', () => {
+    const tomorrow = task({ dueDate: at(2026, 4, 16, 9, 0) });
+    expect(matches('due:<1d', tomorrow)).toBe(true);
+    expect(matches('due:<12h', tomorrow)).toBe(false);
+    expect(matches('due:1d', tomorrow)).toBe(true);
+    expect(matches('due:2d', tomorrow)).toBe(false);
+    expect(matches('due:<7d', task())).toBe(false);
+  });
+
+  it('compares due dates with calendar days', () => {
+    const target = task({ dueDate: at(2026, 4, 30) });
+    expect(matches('due:<=2026-04-30', target)).toBe(true);
+    expect(matches('due:2026-04-30', target)).toBe(true);
+    expect(matches('due:<2026-04-30', target)).toBe(false);
+    expect(matches('due:>2026-04-29', target)).toBe(true);
+  });
+
+  it('matches due keywords', () => {
+    expect(matches('due:today', task({ dueDate: at(2026, 4, 15) }))).toBe(true);
+    expect(matches('due:overdue', task({ dueDate: at(2026, 4, 14) }))).toBe(true);
+    expect(matches('due:none', task())).toBe(true);
+  });
+
+  it('matches projects, including tasks without one', () => {
+    expect(matches('project:garden', task({ projectId: 'project-2' }))).toBe(true);
+    expect(matches('project:none', task())).toBe(true);
+    expect(matches('project:none', task({ projectId: 'project-2' }))).toBe(false);
+  });
+
+  it('matches flags', () => {
+    expect(matches('completed', task({ completed: true }))).toBe(true);
+    expect(matches('blocked', task({ blockedBy: ['task-2'] }))).toBe(true);
+    expect(matches('recurring', task({ recurrence: { frequency: 'DAILY', interval: 1, end: 'NEVER' } }))).toBe(true);
+    expect(matches('shared', task({ owner: false }))).toBe(true);
+    expect(matches('shared', task({ sharedWith: [BOB] }))).toBe(true);
+    expect(matches('shared', task())).toBe(false);
+  });
+
+  it('does not count completed tasks as overdue', () => {
+    const dueDate = at(2026, 4, 14);
+    expect(matches('overdue', task({ dueDate }))).toBe(true);
+    expect(matches('overdue', task({ dueDate, completed: true }))).toBe(false);
+  });
+});
+
+describe('combineQueries', () => {
+  it('skips missing queries and only wraps several', () => {
+    const text = { type: 'text', value: 'a' } as const;
+    expect(combineQueries(null, null)).toBeNull();
+    expect(combineQueries(null, text)).toBe(text);
+    expect(combineQueries(text, text)).toEqual({ type: 'and', children: [text, text] });
+  });
+});
+
+describe('filtersToTaskQuery', () => {
+  it('leaves out completed tasks by default', () => {
+    expect(filtersToTaskQuery(DEFAULT_TASK_FILTERS)).toEqual({ type: 'not', child: { type: 'flag', flag: 'completed' } });
+    expect(filtersToTaskQuery(DEFAULT_TASK_FILTERS, true)).toBeNull();
+  });
+
+  it('combines the filter panel settings', () => {
+    expect(filtersToTaskQuery({
+      ...DEFAULT_TASK_FILTERS,
+      showCompleted: true,
+      urgency: 'HIGH',
+      due: 'TODAY',
+      project: 'NONE',
+      tags: ['work', 'home'],
+      tagMatchMode: 'all'
+    })).toEqual({
+      type: 'and',
+      children: [
+        { type: 'urgency', op: '=', value: 'HIGH' },
+        { type: 'due', op: '=', value: { kind: 'keyword', keyword: 'TODAY' } },
+        { type: 'project', projectId: null },
+        { type: 'and', children: [{ type: 'tag', value: 'work' }, { type: 'tag', value: 'home' }] }
+      ]
+    });
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  it('suggests fields and values for the last term', () => {
+    expect(getQuerySuggestions('invoice urg').map(s => s.value)).toEqual(['invoice urgency:']);
+    expect(getQuerySuggestions('-is:bl').map(s => s.value)).toEqual(['-is:blocked ']);
+  });
+
+  it('quotes project names with spaces', () => {
+    expect(getQuerySuggestions('project:h', { projects: PROJECTS }).map(s => s.label)).toEqual(['project:"Home Office"']);
+  });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createUserStorageEntry, readJson, switchLoadedUser } from '../user-storage';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('readJson', () => {
+  it('returns the fallback for missing and invalid values', () => {
+    expect(readJson('missing', { a: 1 })).toEqual({ a: 1 });
+    localStorage.setItem('broken', '{not json');
+    expect(readJson('broken', [])).toEqual([]);
+  });
+});
+
+describe('createUserStorageEntry', () => {
+  const entry = createUserStorageEntry<string[]>('savedThings', () => []);
+
+  it('keeps the values of users apart', () => {
+    entry.write('alice', ['a']);
+    entry.write('bob', ['b']);
+    expect(localStorage.getItem('savedThings:alice')).toBe('["a"]');
+    expect(entry.read('alice')).toEqual(['a']);
+    expect(entry.read('bob')).toEqual(['b']);
+    expect(entry.read('carol')).toEqual([]);
+  });
+
+  it('stores nothing while nobody is signed in', () => {
+    entry.write(null, ['x']);
+    expect(localStorage.length).toBe(0);
+    expect(entry.read(null)).toEqual([]);
+  });
+
+  it('returns a new fallback value each time', () => {
+    entry.read('alice').push('changed');
+    expect(entry.read('alice')).toEqual([]);
+  });
+});
+
+describe('switchLoadedUser', () => {
+  it('asks for loading only when the user changes', () => {
+    const state = { loadedFor: null as string | null };
+    expect(switchLoadedUser(state, 'alice')).toBe(true);
+    expect(state.loadedFor).toBe('alice');
+    expect(switchLoadedUser(state, 'alice')).toBe(false);
+    expect(switchLoadedUser(state, null)).toBe(true);
+    expect(state.loadedFor).toBeNull();
+  });
+});
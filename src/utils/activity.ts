@@ -0,0 +1,144 @@
+/**
+ * Utility functions for displaying the activity history of a task
+ */
+import { type FieldChangeDto, type TaskActivityDto, type TaskActivityType, type UserDto } from '../types/models';
+import { formatDate, formatTime } from './formatters';
+
+export interface ActivityGroup {
+  // ID of the newest entry in the group
+  id: string;
+  type: TaskActivityType;
+  actor: UserDto;
+  targetUser?: UserDto;
+  // Net changes of all edits in the group
+  changes: FieldChangeDto[];
+  // Number of entries in the group
+  count: number;
+  // Time of the newest and the oldest entry
+  createdAt: string;
+  since: string;
+}
+
+// Edits by the same user closer together than this are shown as one entry
+export const ACTIVITY_GROUP_WINDOW_MS = 10 * 60 * 1000;
+
+const ACTIVITY_LABELS: Record<TaskActivityType, string> = {
+  CREATED: 'created the task',
+  UPDATED: 'edited the task',
+  COMPLETED: 'completed the task',
+  UNCOMPLETED: 'reopened the task',
+  SHARED: 'shared the task',
+  UNSHARED: 'stopped sharing the task',
+  TIMER_STARTED: 'started the timer',
+  TIMER_PAUSED: 'paused the timer',
+  TIMER_RESET: 'reset the timer'
+};
+
+export const ACTIVITY_ICONS: Record<TaskActivityType, string> = {
+  CREATED: 'mdi-plus-circle',
+  UPDATED: 'mdi-pencil',
+  COMPLETED: 'mdi-check-circle',
+  UNCOMPLETED: 'mdi-restore',
+  SHARED: 'mdi-share-variant',
+  UNSHARED: 'mdi-account-remove',
+  TIMER_STARTED: 'mdi-play-circle',
+  TIMER_PAUSED: 'mdi-pause-circle',
+  TIMER_RESET: 'mdi-timer-refresh'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  dueDate: 'Due date',
+  urgency: 'Urgency',
+  tags: 'Tags',
+  projectId: 'Project',
+  recurrence: 'Repeat',
+  subtasks: 'Checklist',
+  blockedBy: 'Dependencies',
+  pomodoroTimeMillis: 'Pomodoro length'
+};
+
+// Merge the changes of consecutive edits into one change per field, from the oldest to the newest value
+const mergeChanges = (newer: FieldChangeDto[], older: FieldChangeDto[]): FieldChangeDto[] => {
+  const merged = new Map<string, FieldChangeDto>();
+  older.forEach(change => merged.set(change.field, { ...change }));
+  newer.forEach(change => {
+    const existing = merged.get(change.field);
+    merged.set(change.field, existing ? { ...existing, newValue: change.newValue } : { ...change });
+  });
+  // Drop fields that were changed back
+  return [...merged.values()].filter(change => change.oldValue !== change.newValue);
+};
+
+/**
+ * Group consecutive edits by the same user
+ * @param activities Activity entries, newest first
+ * @param windowMs Maximum time between two edits of a group
+ * @returns The grouped entries, newest first; only edits are grouped
+ */
+export const groupActivities = (activities: TaskActivityDto[], windowMs: number = ACTIVITY_GROUP_WINDOW_MS): ActivityGroup[] => {
+  const groups: ActivityGroup[] = [];
+
+  activities.forEach(activity => {
+    const last = groups[groups.length - 1];
+    const canGroup = last && activity.type === 'UPDATED' && last.type === 'UPDATED' &&
+      last.actor.id === activity.actor.id &&
+      new Date(last.since).getTime() - new Date(activity.createdAt).getTime() <= windowMs;
+
+    if (canGroup) {
+      last.changes = mergeChanges(last.changes, activity.changes || []);
+      last.count++;
+      last.since = activity.createdAt;
+    } else {
+      groups.push({
+        id: activity.id,
+        type: activity.type,
+        actor: activity.actor,
+        targetUser: activity.targetUser,
+        changes: activity.changes || [],
+        count: 1,
+        createdAt: activity.createdAt,
+        since: activity.createdAt
+      });
+    }
+  });
+
+  return groups;
+};
+
+/**
+ * Describe what happened in an activity group
+ * @param group The activity group
+ * @returns e.g. 'shared the task with Jane Doe'
+ */
+export const describeActivity = (group: ActivityGroup): string => {
+  const label = ACTIVITY_LABELS[group.type];
+  if (group.targetUser && (group.type === 'SHARED' || group.type === 'UNSHARED')) {
+    return `${label} with ${group.targetUser.firstname} ${group.targetUser.lastname}`;
+  }
+  if (group.type === 'UPDATED' && group.count > 1) {
+    return `${label} (${group.count} edits)`;
+  }
+  return label;
+};
+
+/**
+ * Get a readable name of a task field
+ * @param field The field name
+ * @returns The label, or the field name if unknown
+ */
+export const getFieldLabel = (field: string): string => FIELD_LABELS[field] || field;
+
+/**
+ * Format a field value of a change for display
+ * @param field The field name
+ * @param value The value as sent by the server
+ * @returns A short readable value
+ */
+export const formatChangeValue = (field: string, value: string | null): string => {
+  if (value === null || value === '') return '(none)';
+  if (field === 'dueDate') return `${formatDate(value)} ${formatTime(value)}`;
+  if (field === 'pomodoroTimeMillis') return `${Math.round(Number(value) / 60000)} min`;
+  return value.length > 80 ? `${value.slice(0, 77)}...` : value;
+};
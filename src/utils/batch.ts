@@ -0,0 +1,45 @@
+/**
+ * Utility functions for running operations on many items at once
+ */
+
+export interface BatchResult<T> {
+  succeeded: T[];
+  failed: T[];
+}
+
+/**
+ * Run an operation for each item with at most `limit` operations in flight
+ * @param items The items to process
+ * @param limit The maximum number of concurrent operations
+ * @param operation The operation to run for an item
+ * @returns The items whose operation succeeded and failed, each in input order
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  operation: (item: T) => Promise<unknown>
+): Promise<BatchResult<T>> => {
+  const outcomes: boolean[] = new Array(items.length);
+  let next = 0;
+
+  // Each worker keeps picking the next unprocessed item until none are left
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        await operation(items[index]);
+        outcomes[index] = true;
+      } catch (error) {
+        console.error('Batch operation failed:', error);
+        outcomes[index] = false;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+  return {
+    succeeded: items.filter((_, i) => outcomes[i]),
+    failed: items.filter((_, i) => !outcomes[i])
+  };
+};
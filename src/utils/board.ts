@@ -0,0 +1,161 @@
+/**
+ * Utility functions for grouping tasks into board columns
+ */
+import { type TaskDto, type UpdateTaskDto } from '../types/models';
+import { formatDateTimeInput } from './formatters';
+import { moveToDay } from './calendar';
+
+export type BoardGroupBy = 'urgency' | 'completion' | 'due';
+
+export interface BoardColumn {
+  key: string;
+  title: string;
+  color: string;
+  // False for columns tasks cannot be moved into, e.g. "Overdue"
+  droppable: boolean;
+}
+
+/**
+ * The change needed to move a task into another column
+ */
+export type BoardColumnChange =
+  | { type: 'update'; update: UpdateTaskDto }
+  | { type: 'complete' }
+  | { type: 'uncomplete' };
+
+export const BOARD_GROUPINGS: { title: string; value: BoardGroupBy }[] = [
+  { title: 'Urgency', value: 'urgency' },
+  { title: 'Completion', value: 'completion' },
+  { title: 'Due date', value: 'due' }
+];
+
+const COLUMNS: Record<BoardGroupBy, BoardColumn[]> = {
+  urgency: [
+    { key: 'HIGH', title: 'High', color: 'error', droppable: true },
+    { key: 'MEDIUM', title: 'Medium', color: 'warning', droppable: true },
+    { key: 'LOW', title: 'Low', color: 'success', droppable: true }
+  ],
+  completion: [
+    { key: 'open', title: 'Open', color: 'primary', droppable: true },
+    { key: 'done', title: 'Done', color: 'success', droppable: true }
+  ],
+  due: [
+    { key: 'overdue', title: 'Overdue', color: 'error', droppable: false },
+    { key: 'today', title: 'Today', color: 'warning', droppable: true },
+    { key: 'week', title: 'This week', color: 'primary', droppable: true },
+    { key: 'later', title: 'Later', color: 'info', droppable: true },
+    { key: 'none', title: 'No due date', color: 'grey', droppable: true }
+  ]
+};
+
+/**
+ * Get the columns of a board grouping
+ * @param groupBy The grouping
+ * @returns The columns in display order
+ */
+export const getBoardColumns = (groupBy: BoardGroupBy): BoardColumn[] => COLUMNS[groupBy];
+
+const endOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+// End of the ISO week (Sunday) containing the date
+const endOfWeek = (date: Date): Date =>
+  endOfDay(new Date(date.getFullYear(), date.getMonth(), date.getDate() + (7 - date.getDay()) % 7));
+
+/**
+ * Get the due bucket of a task
+ * @param task The task
+ * @param now The current time
+ * @returns 'overdue', 'today', 'week', 'later' or 'none'
+ */
+export const getDueBucket = (task: TaskDto, now: Date = new Date()): string => {
+  if (!task.dueDate) return 'none';
+
+  const dueDate = new Date(task.dueDate);
+  if (dueDate < now) return 'overdue';
+  if (dueDate <= endOfDay(now)) return 'today';
+  if (dueDate <= endOfWeek(now)) return 'week';
+  return 'later';
+};
+
+/**
+ * Get the column a task belongs to
+ * @param task The task
+ * @param groupBy The board grouping
+ * @param now The current time, used for due buckets
+ * @returns The column key
+ */
+export const getColumnKey = (task: TaskDto, groupBy: BoardGroupBy, now: Date = new Date()): string => {
+  switch (groupBy) {
+    case 'urgency':
+      return task.urgency;
+    case 'completion':
+      return task.completed ? 'done' : 'open';
+    case 'due':
+      return getDueBucket(task, now);
+  }
+};
+
+/**
+ * Get the change needed to move a task into a column
+ * @param task The task to move
+ * @param groupBy The board grouping
+ * @param columnKey The target column
+ * @param now The current time, used for due buckets
+ * @returns The change, or null if the task cannot be moved there
+ */
+export const getColumnChange = (
+  task: TaskDto,
+  groupBy: BoardGroupBy,
+  columnKey: string,
+  now: Date = new Date()
+): BoardColumnChange | null => {
+  if (getColumnKey(task, groupBy, now) === columnKey) {
+    return null;
+  }
+
+  switch (groupBy) {
+    case 'urgency':
+      return { type: 'update', update: { urgency: columnKey as TaskDto['urgency'] } };
+
+    case 'completion':
+      return columnKey === 'done' ? { type: 'complete' } : { type: 'uncomplete' };
+
+    case 'due': {
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      let dueDate: Date;
+
+      switch (columnKey) {
+        case 'today':
+          dueDate = moveToDay(task, today);
+          // Keep the task in today's column if its time of day has already passed
+          if (dueDate < now) {
+            dueDate = endOfDay(today);
+          }
+          break;
+        case 'week': {
+          const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+          if (tomorrow > endOfWeek(now)) return null;
+          dueDate = moveToDay(task, tomorrow);
+          break;
+        }
+        case 'later': {
+          // Monday of next week
+          const nextMonday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + ((8 - today.getDay()) % 7 || 7));
+          dueDate = moveToDay(task, nextMonday);
+          break;
+        }
+        case 'none':
+          return { type: 'update', update: { dueDate: '' } };
+        default:
+          return null;
+      }
+
+      // Tasks without a due date are due all day on the day of the column
+      return {
+        type: 'update',
+        update: task.dueDate ? { dueDate: formatDateTimeInput(dueDate) } : { dueDate: formatDateTimeInput(dueDate), allDay: true }
+      };
+    }
+  }
+};
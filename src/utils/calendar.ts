@@ -0,0 +1,137 @@
+/**
+ * Utility functions for placing tasks on a calendar
+ */
+import { type TaskDto } from '../types/models';
+
+export type CalendarMode = 'month' | 'week' | 'agenda';
+
+export const CALENDAR_MODES: { title: string; value: CalendarMode }[] = [
+  { title: 'Month', value: 'month' },
+  { title: 'Week', value: 'week' },
+  { title: 'Agenda', value: 'agenda' }
+];
+
+/**
+ * Get the local day key of a date
+ * @param date The date
+ * @returns The day as YYYY-MM-DD
+ */
+export const toDayKey = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Monday of the week containing the date
+const startOfWeek = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7));
+
+/**
+ * Get the days of the week containing a date
+ * @param anchor Any day of the week
+ * @returns The days from Monday to Sunday
+ */
+export const getWeekDays = (anchor: Date): Date[] => {
+  const monday = startOfWeek(anchor);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+/**
+ * Get the days shown in the month grid of a date, padded to whole weeks
+ * @param anchor Any day of the month
+ * @returns The days from the Monday before the 1st to the Sunday after the last day
+ */
+export const getMonthDays = (anchor: Date): Date[] => {
+  const first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (let day = first; day <= last || day.getDay() !== 1; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Get the days of the month containing a date
+ * @param anchor Any day of the month
+ * @returns The days from the 1st to the last day of the month
+ */
+export const getDaysOfMonth = (anchor: Date): Date[] => {
+  const length = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+  return Array.from({ length }, (_, i) => new Date(anchor.getFullYear(), anchor.getMonth(), i + 1));
+};
+
+/**
+ * Move a calendar period forwards or backwards
+ * @param anchor The current anchor day
+ * @param mode The calendar mode; week mode moves by weeks, the others by months
+ * @param delta The number of periods to move
+ * @returns The new anchor day
+ */
+export const shiftPeriod = (anchor: Date, mode: CalendarMode, delta: number): Date => {
+  if (mode === 'week') {
+    return addDays(anchor, delta * 7);
+  }
+  // Stay on the 1st so short months are not skipped
+  return new Date(anchor.getFullYear(), anchor.getMonth() + delta, 1);
+};
+
+/**
+ * Get the title of the calendar period containing a date
+ * @param anchor The anchor day
+ * @param mode The calendar mode
+ * @returns E.g. "October 2026" or "Oct 19 – Oct 25, 2026"
+ */
+export const getPeriodTitle = (anchor: Date, mode: CalendarMode): string => {
+  if (mode !== 'week') {
+    return anchor.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  }
+
+  const days = getWeekDays(anchor);
+  const format = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return `${format(days[0])} – ${format(days[6])}, ${days[6].getFullYear()}`;
+};
+
+/**
+ * Group tasks by their local due day
+ * @param tasks The tasks; tasks without a due date are left out
+ * @returns The tasks of each day by day key, sorted by due time
+ */
+export const groupTasksByDay = (tasks: TaskDto[]): Record<string, TaskDto[]> => {
+  const groups: Record<string, TaskDto[]> = {};
+
+  tasks
+    .filter(task => task.dueDate)
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+    .forEach(task => {
+      const key = toDayKey(new Date(task.dueDate));
+      (groups[key] ||= []).push(task);
+    });
+
+  return groups;
+};
+
+/**
+ * Check whether a date is today
+ * @param date The date
+ * @param now The current time
+ * @returns True if the date falls on the current day
+ */
+export const isToday = (date: Date, now: Date = new Date()): boolean =>
+  startOfDay(date).getTime() === startOfDay(now).getTime();
+
+/**
+ * Move a task's due date to another day
+ * @param task The task
+ * @param day The new day
+ * @returns The new due date, keeping the time of day (or the end of the day if the task had no due date)
+ */
+export const moveToDay = (task: { dueDate?: string }, day: Date): Date => {
+  const current = task.dueDate ? new Date(task.dueDate) : null;
+  return current
+    ? new Date(day.getFullYear(), day.getMonth(), day.getDate(), current.getHours(), current.getMinutes())
+    : new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59);
+};
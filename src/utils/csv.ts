@@ -0,0 +1,64 @@
+/**
+ * Utility functions for reading and writing comma-separated values (RFC 4180)
+ */
+
+// Fields with a separator, quote or line break have to be quoted
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Write rows as CSV
+ * @param rows The rows, each a list of fields
+ * @returns The CSV text with CRLF line breaks
+ */
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+
+/**
+ * Read CSV text into rows
+ * Quoted fields may contain separators, doubled quotes and line breaks; blank lines are skipped
+ * @param text The CSV text
+ * @returns The rows, each a list of fields
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // A byte order mark is left by some spreadsheet programs
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
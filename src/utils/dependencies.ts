@@ -0,0 +1,50 @@
+/**
+ * Utility functions for task dependencies ("blocked by" relations)
+ */
+import { type TaskDto } from '../types/models';
+
+/**
+ * Get the prerequisites of a task that are still open
+ * @param task The task
+ * @param tasks All known tasks; prerequisites that are not among them are ignored
+ * @returns The open tasks the task is blocked by
+ */
+export const findOpenBlockers = (task: TaskDto, tasks: TaskDto[]): TaskDto[] => {
+  const blockedBy = task.blockedBy || [];
+  if (blockedBy.length === 0) return [];
+  return tasks.filter(other => blockedBy.includes(other.id) && !other.completed);
+};
+
+/**
+ * Get the tasks that are blocked by a task
+ * @param taskId The ID of the prerequisite
+ * @param tasks All known tasks
+ * @returns The tasks that list the task as a prerequisite
+ */
+export const findDependents = (taskId: string, tasks: TaskDto[]): TaskDto[] => {
+  return tasks.filter(task => (task.blockedBy || []).includes(taskId));
+};
+
+/**
+ * Check whether making a task blocked by another task would create a dependency cycle
+ * @param taskId The task that would be blocked
+ * @param blockerId The prerequisite to add
+ * @param tasks All known tasks
+ * @returns True if the prerequisite already depends on the task, directly or indirectly
+ */
+export const wouldCreateCycle = (taskId: string, blockerId: string, tasks: TaskDto[]): boolean => {
+  const blockedByMap = new Map(tasks.map(task => [task.id, task.blockedBy || []]));
+
+  // Walk the prerequisites of the blocker and look for the task
+  const visited = new Set<string>();
+  const pending = [blockerId];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    pending.push(...(blockedByMap.get(current) || []));
+  }
+
+  return false;
+};
@@ -0,0 +1,93 @@
+/**
+ * Utility functions for comparing time estimates of tasks with the time actually focused on them
+ */
+import { type TaskDto } from '../types/models';
+
+export type EstimateStatus = 'under' | 'on-track' | 'over';
+
+export interface EstimateComparison {
+  estimateMillis: number;
+  actualMillis: number;
+  // Positive if more time was spent than estimated
+  differenceMillis: number;
+  status: EstimateStatus;
+}
+
+export interface EstimateAccuracy {
+  // Number of tasks the figures are based on
+  count: number;
+  // Mean accuracy of the estimates from 0 to 1
+  accuracy: number;
+  // Mean of actual / estimated time; above 1 means tasks take longer than estimated
+  averageRatio: number;
+}
+
+// Deviation from the estimate that still counts as on track
+const ON_TRACK_TOLERANCE = 0.1;
+
+/**
+ * Compare the estimate of a task with the time focused on it
+ * @param estimateMinutes The estimate in minutes
+ * @param actualMillis The focused time in milliseconds
+ * @returns The comparison; a task is over its estimate once the focused time exceeds it by more than the tolerance
+ */
+export const compareWithEstimate = (estimateMinutes: number, actualMillis: number): EstimateComparison => {
+  const estimateMillis = estimateMinutes * 60 * 1000;
+  const differenceMillis = actualMillis - estimateMillis;
+  let status: EstimateStatus = 'on-track';
+  if (differenceMillis > estimateMillis * ON_TRACK_TOLERANCE) status = 'over';
+  else if (differenceMillis < -estimateMillis * ON_TRACK_TOLERANCE) status = 'under';
+  return { estimateMillis, actualMillis, differenceMillis, status };
+};
+
+// Accuracy of one estimate: 1 if spot on, 0 if off by the estimate itself or more
+const getTaskAccuracy = (estimateMillis: number, actualMillis: number): number =>
+  Math.max(0, 1 - Math.abs(actualMillis - estimateMillis) / estimateMillis);
+
+/**
+ * Measure how good the estimates of completed tasks were
+ * Only completed tasks with an estimate and some focused time are taken into account.
+ * @param tasks The tasks
+ * @returns The accuracy, or null if no task can be measured
+ */
+export const getEstimateAccuracy = (tasks: TaskDto[]): EstimateAccuracy | null => {
+  const measured = tasks.filter(task => task.completed && task.estimateMinutes && task.focusedTimeMillis);
+  if (measured.length === 0) return null;
+
+  let accuracy = 0;
+  let ratio = 0;
+  measured.forEach(task => {
+    const estimateMillis = task.estimateMinutes! * 60 * 1000;
+    accuracy += getTaskAccuracy(estimateMillis, task.focusedTimeMillis!);
+    ratio += task.focusedTimeMillis! / estimateMillis;
+  });
+
+  return {
+    count: measured.length,
+    accuracy: accuracy / measured.length,
+    averageRatio: ratio / measured.length
+  };
+};
+
+/**
+ * Measure the estimate accuracy month by month
+ * Tasks are counted in the month they were last updated, which for completed tasks is usually their completion.
+ * @param tasks The tasks
+ * @param months Number of months to go back, including the current one
+ * @param now The current time
+ * @returns One entry per month, oldest first; accuracy is null for months without measured tasks
+ */
+export const getAccuracyByMonth = (
+  tasks: TaskDto[],
+  months: number,
+  now: Date = new Date()
+): { month: Date; accuracy: EstimateAccuracy | null }[] =>
+  Array.from({ length: months }, (_, index) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - (months - 1 - index), 1);
+    const next = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    const inMonth = tasks.filter(task => {
+      const updated = new Date(task.updatedAt);
+      return updated >= month && updated < next;
+    });
+    return { month, accuracy: getEstimateAccuracy(inMonth) };
+  });
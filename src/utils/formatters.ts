@@ -24,6 +24,35 @@ export const formatTime = (dateString: string): string => {
   return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
+/**
+ * Format a date as a local YYYY-MM-DDThh:mm string as used by the task due date inputs
+ * @param date The date to format
+ * @returns Local date-time string without timezone information
+ */
+export const formatDateTimeInput = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Format a past date relative to now, e.g. "5 min ago"
+ * @param dateString The date string to format
+ * @param now The current time
+ * @returns Relative time for the last week, the localized date before that
+ */
+export const formatRelativeTime = (dateString: string, now: Date = new Date()): string => {
+  const date = new Date(dateString);
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `${days} days ago`;
+  return date.toLocaleDateString();
+};
+
 /**
  * Format milliseconds to MM:SS display
  * @param millis Milliseconds to format
@@ -37,6 +66,19 @@ export const formatTimeDisplay = (millis: number): string => {
   return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Format a duration in hours and minutes
+ * @param millis Duration in milliseconds
+ * @returns e.g. '1h 30m', '25m' or '0m'
+ */
+export const formatDuration = (millis: number): string => {
+  const totalMinutes = Math.round(Math.max(0, millis) / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
 /**
  * Get the color for a task urgency level
  * @param urgency The urgency level ('HIGH', 'MEDIUM', 'LOW')
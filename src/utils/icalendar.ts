@@ -0,0 +1,198 @@
+/**
+ * Utility functions for exporting tasks as iCalendar (RFC 5545) files
+ */
+import { type TaskDto, type TaskReminderDto } from '../types/models';
+import { type ExportFile } from './task-export';
+
+// Tasks can become to-dos, which calendar apps list apart, or events at their due time
+export type CalendarComponent = 'VTODO' | 'VEVENT';
+
+export const CALENDAR_COMPONENTS: { title: string; value: CalendarComponent }[] = [
+  { title: 'As tasks (VTODO)', value: 'VTODO' },
+  { title: 'As events (VEVENT)', value: 'VEVENT' }
+];
+
+// Length of an event for a task without an estimate; the event ends at the due date
+export const DEFAULT_EVENT_MINUTES = 30;
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+// PRIORITY runs from 1 (highest) to 9 (lowest); 5 is medium
+const URGENCY_PRIORITY: Record<TaskDto['urgency'], number> = { HIGH: 1, MEDIUM: 5, LOW: 9 };
+
+const encoder = new TextEncoder();
+
+/**
+ * Escape a text value
+ * Backslashes, semicolons and commas are escaped and line breaks become \n
+ * @param value The text
+ * @returns The escaped text
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Fold a content line so no line is longer than 75 octets
+ * Continuation lines start with a space; multi-byte characters are never split
+ * @param line The unfolded content line
+ * @returns The folded line, with CRLF between the parts
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The space that starts a continuation line counts towards its length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Format a time as a UTC date-time value
+ * @param date The time
+ * @returns e.g. '20260501T150000Z'
+ */
+export const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Format the local day of a time as a date value
+ * @param date The time
+ * @returns e.g. '20260501'
+ */
+export const formatDateValue = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+// Trigger of a reminder, relative to the due date or at a fixed time
+const buildTrigger = (reminder: TaskReminderDto, due: Date | null, allDay: boolean): string | null => {
+  if (reminder.at) {
+    return `TRIGGER;VALUE=DATE-TIME:${formatDateTime(new Date(reminder.at))}`;
+  }
+  if (reminder.offsetMinutes === undefined || !due) return null;
+  // All-day components end at midnight, so the reminder gets the time it has in the app
+  if (allDay) {
+    return `TRIGGER;VALUE=DATE-TIME:${formatDateTime(new Date(due.getTime() - reminder.offsetMinutes * 60 * 1000))}`;
+  }
+  // The due date is the end of both the to-do and the event
+  return reminder.offsetMinutes === 0 ? 'TRIGGER;RELATED=END:PT0S' : `TRIGGER;RELATED=END:-PT${reminder.offsetMinutes}M`;
+};
+
+/**
+ * Build the content lines of one task
+ * Events need a time, so tasks without a due date are left out of event calendars.
+ * All-day tasks become all-day to-dos and events with date values.
+ * Events have no completed status; completion only maps to STATUS for to-dos.
+ * @param task The task
+ * @param component VTODO or VEVENT
+ * @param now The time of the export
+ * @returns The unfolded content lines, empty if the task cannot be exported as the component
+ */
+export const buildTaskComponent = (task: TaskDto, component: CalendarComponent, now: Date = new Date()): string[] => {
+  const due = task.dueDate ? new Date(task.dueDate) : null;
+  if (component === 'VEVENT' && !due) return [];
+  const allDay = !!task.allDay;
+
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@taskmaster`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `SUMMARY:${escapeText(task.name)}`
+  ];
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.createdAt) lines.push(`CREATED:${formatDateTime(new Date(task.createdAt))}`);
+  if (task.updatedAt) lines.push(`LAST-MODIFIED:${formatDateTime(new Date(task.updatedAt))}`);
+  lines.push(`PRIORITY:${URGENCY_PRIORITY[task.urgency]}`);
+  if (task.tags && task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+
+  if (component === 'VTODO') {
+    if (due) lines.push(allDay ? `DUE;VALUE=DATE:${formatDateValue(due)}` : `DUE:${formatDateTime(due)}`);
+    lines.push(`STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    if (task.completed) lines.push('PERCENT-COMPLETE:100');
+  } else if (due && allDay) {
+    // The end of an all-day event is the next day, which is not part of it
+    const nextDay = new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1);
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(due)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(nextDay)}`);
+    lines.push('STATUS:CONFIRMED');
+  } else if (due) {
+    const minutes = task.estimateMinutes || DEFAULT_EVENT_MINUTES;
+    lines.push(`DTSTART:${formatDateTime(new Date(due.getTime() - minutes * 60 * 1000))}`);
+    lines.push(`DTEND:${formatDateTime(due)}`);
+    lines.push('STATUS:CONFIRMED');
+  }
+
+  // Reminders of completed tasks would only go off for nothing
+  if (!task.completed) {
+    (task.reminders || []).forEach(reminder => {
+      const trigger = buildTrigger(reminder, due, allDay);
+      if (trigger) {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(task.name)}`, trigger, 'END:VALARM');
+      }
+    });
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * Build an iCalendar file of tasks
+ * @param tasks The tasks
+ * @param component VTODO or VEVENT
+ * @param name Calendar name shown by calendar apps
+ * @param now The time of the export
+ * @returns The calendar text, with folded lines and CRLF line endings
+ */
+export const buildICalendar = (
+  tasks: TaskDto[],
+  component: CalendarComponent,
+  name: string = 'TaskMaster',
+  now: Date = new Date()
+): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TaskMaster//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...tasks.flatMap(task => buildTaskComponent(task, component, now)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Build a downloadable iCalendar file of tasks
+ * @param tasks The tasks
+ * @param component VTODO or VEVENT
+ * @param name Calendar name, also used for the file name
+ * @returns The file content, name and type
+ */
+export const createCalendarFile = (tasks: TaskDto[], component: CalendarComponent, name: string): ExportFile => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'tasks';
+  return {
+    content: buildICalendar(tasks, component, name),
+    fileName: `${slug}.ics`,
+    mimeType: 'text/calendar'
+  };
+};
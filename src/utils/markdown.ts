@@ -0,0 +1,100 @@
+/**
+ * Utility functions for task descriptions written in Markdown
+ */
+import { Marked, type Token, type Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// GitHub flavored Markdown; raw HTML in a description is shown as text instead of being rendered
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html: ({ text }) => escapeHtml(text)
+  }
+});
+
+// A purifier of our own, so its hook does not change how other code sanitizes with DOMPurify
+const purifier = DOMPurify();
+
+// Links open in a new tab without access to this window
+purifier.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+  'ul', 'ol', 'li', 'input', 'strong', 'em', 'del', 'a', 'code', 'pre',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'target', 'rel', 'type', 'checked', 'disabled', 'start', 'align'];
+
+/**
+ * Render Markdown to sanitized HTML
+ * Scripts, event handlers, styles and javascript: links are removed.
+ * @param source The Markdown text
+ * @param interactive Whether task list checkboxes can be clicked
+ * @returns HTML that is safe to insert with v-html
+ */
+export const renderMarkdown = (source: string, interactive = false): string => {
+  const html = markdown.parse(source, { async: false });
+  return purifier.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR: interactive ? ALLOWED_ATTR.filter(attr => attr !== 'disabled') : ALLOWED_ATTR
+  });
+};
+
+// The checkbox of a task list item like "- [ ] todo" or "1. [x] done", also inside block quotes
+const TASK_ITEM = /^((?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\](?=\s))/;
+
+const countLines = (text: string): number => text.split('\n').length - 1;
+
+// Collect the first lines of task list items, in the order their checkboxes are rendered.
+// Block quotes and list items are lexed from their own lines with the markers removed, so
+// the tokens inside them keep the line count and start at the line of their container.
+const collectTaskItemLines = (tokens: Token[], line: number, lines: number[]): void => {
+  for (const token of tokens) {
+    if (token.type === 'list') {
+      collectTaskItemLines((token as Tokens.List).items, line, lines);
+    } else if (token.type === 'list_item') {
+      if ((token as Tokens.ListItem).task) lines.push(line);
+      collectTaskItemLines((token as Tokens.ListItem).tokens, line, lines);
+    } else if (token.type === 'blockquote') {
+      collectTaskItemLines((token as Tokens.Blockquote).tokens, line, lines);
+    }
+    line += countLines(token.raw);
+  }
+};
+
+/**
+ * Toggle a task list checkbox in Markdown text
+ * Checkboxes are found with the tokens the renderer uses, so text that only looks like a
+ * task list item, e.g. in a code block, is not counted.
+ * @param source The Markdown text
+ * @param index The index of the checkbox among all checkboxes in the rendered text
+ * @returns The text with the checkbox toggled, or unchanged if there is no such checkbox
+ */
+export const toggleTaskListItem = (source: string, index: number): string => {
+  const itemLines: number[] = [];
+  collectTaskItemLines(markdown.lexer(source), 0, itemLines);
+  if (index < 0 || index >= itemLines.length) return source;
+
+  const lines = source.split('\n');
+  const line = itemLines[index];
+  const match = lines[line].match(TASK_ITEM);
+  if (!match) return source;
+
+  const checked = match[2] === ' ' ? 'x' : ' ';
+  lines[line] = match[1] + checked + match[3] + lines[line].slice(match[0].length);
+  return lines.join('\n');
+};
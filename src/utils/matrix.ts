@@ -0,0 +1,69 @@
+/**
+ * Utility functions for sorting tasks into the urgency/importance (Eisenhower) matrix
+ */
+import { type TaskDto, type UpdateTaskDto } from '../types/models';
+
+export type MatrixQuadrant = 'do' | 'schedule' | 'delegate' | 'drop';
+
+export interface MatrixQuadrantInfo {
+  key: MatrixQuadrant;
+  title: string;
+  description: string;
+  color: string;
+  urgent: boolean;
+  important: boolean;
+}
+
+// In display order: important tasks on top, urgent tasks on the left
+export const MATRIX_QUADRANTS: MatrixQuadrantInfo[] = [
+  { key: 'do', title: 'Do', description: 'Urgent and important', color: 'error', urgent: true, important: true },
+  { key: 'schedule', title: 'Schedule', description: 'Important, not urgent', color: 'primary', urgent: false, important: true },
+  { key: 'delegate', title: 'Delegate', description: 'Urgent, not important', color: 'warning', urgent: true, important: false },
+  { key: 'drop', title: 'Drop', description: 'Neither urgent nor important', color: 'grey', urgent: false, important: false }
+];
+
+/**
+ * Check if a task counts as urgent in the matrix
+ * @param task The task
+ * @returns True if its urgency is high
+ */
+export const isUrgent = (task: TaskDto): boolean => task.urgency === 'HIGH';
+
+/**
+ * Check if a task counts as important in the matrix
+ * Tasks without an importance are treated as medium
+ * @param task The task
+ * @returns True if its importance is high
+ */
+export const isImportant = (task: TaskDto): boolean => task.importance === 'HIGH';
+
+/**
+ * Get the quadrant a task belongs to
+ * @param task The task
+ * @returns The quadrant key
+ */
+export const getQuadrant = (task: TaskDto): MatrixQuadrant =>
+  MATRIX_QUADRANTS.find(quadrant =>
+    quadrant.urgent === isUrgent(task) && quadrant.important === isImportant(task)
+  )!.key;
+
+/**
+ * Get the change needed to move a task into a quadrant
+ * Only the axes that differ are changed: they are raised to high, or lowered from high to medium
+ * @param task The task to move
+ * @param quadrant The target quadrant
+ * @returns The update, or null if the task is already in the quadrant
+ */
+export const getQuadrantChange = (task: TaskDto, quadrant: MatrixQuadrant): UpdateTaskDto | null => {
+  const target = MATRIX_QUADRANTS.find(info => info.key === quadrant);
+  if (!target) return null;
+
+  const update: UpdateTaskDto = {};
+  if (target.urgent !== isUrgent(task)) {
+    update.urgency = target.urgent ? 'HIGH' : 'MEDIUM';
+  }
+  if (target.important !== isImportant(task)) {
+    update.importance = target.important ? 'HIGH' : 'MEDIUM';
+  }
+  return Object.keys(update).length > 0 ? update : null;
+};
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for @mentions in comments
+ */
+
+export interface MentionSegment {
+  text: string;
+  // The mentioned username, if this segment is a mention
+  username?: string;
+}
+
+// "@name" at the start or after a character that cannot be part of an e-mail address
+const MENTION = /(^|[^\w@.])@([\w.-]*\w)/g;
+
+/**
+ * Find the users mentioned in a text
+ * @param content The text
+ * @param usernames The users that can be mentioned
+ * @returns The mentioned usernames, each once, as spelled in usernames
+ */
+export const extractMentions = (content: string, usernames: string[]): string[] => {
+  const mentioned = new Set<string>();
+  for (const match of content.matchAll(MENTION)) {
+    const username = usernames.find(name => name.toLowerCase() === match[2].toLowerCase());
+    if (username) mentioned.add(username);
+  }
+  return [...mentioned];
+};
+
+/**
+ * Split a text into plain text and mentions for highlighting
+ * @param content The text
+ * @param usernames The mentioned usernames
+ * @returns The segments in order
+ */
+export const splitMentions = (content: string, usernames: string[]): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(MENTION)) {
+    const username = usernames.find(name => name.toLowerCase() === match[2].toLowerCase());
+    if (!username) continue;
+
+    const start = match.index! + match[1].length;
+    if (start > last) segments.push({ text: content.slice(last, start) });
+    segments.push({ text: `@${match[2]}`, username });
+    last = start + match[2].length + 1;
+  }
+
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+};
+
+/**
+ * Get the partial username being typed at the end of a text
+ * @param content The text typed so far
+ * @returns The characters after the last "@", or null if no mention is being typed
+ */
+export const getMentionQuery = (content: string): string | null => {
+  const match = content.match(/(^|\s)@([\w.-]*)$/);
+  return match ? match[2] : null;
+};
@@ -0,0 +1,70 @@
+/**
+ * Utility functions for overdue tasks: detection, rescheduling and urgency escalation
+ */
+import { type TaskDto } from '../types/models';
+import { moveToDay } from './calendar';
+
+export type RescheduleOption = 'today' | 'tomorrow' | 'nextWeek';
+
+export const RESCHEDULE_OPTIONS: { title: string; value: RescheduleOption; icon: string }[] = [
+  { title: 'Today', value: 'today', icon: 'mdi-calendar-today' },
+  { title: 'Tomorrow', value: 'tomorrow', icon: 'mdi-calendar-arrow-right' },
+  { title: 'Next week', value: 'nextWeek', icon: 'mdi-calendar-week' }
+];
+
+const URGENCY_STEPS: TaskDto['urgency'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a task is overdue
+ * @param task The task
+ * @param now The current time
+ * @returns True if the task is open and its due date has passed
+ */
+export const isOverdue = (task: TaskDto, now: Date = new Date()): boolean =>
+  !task.completed && !!task.dueDate && new Date(task.dueDate) < now;
+
+/**
+ * Get the number of full days a task is overdue
+ * @param task The task
+ * @param now The current time
+ * @returns The days since the due date, 0 if the task is not overdue or less than a day late
+ */
+export const getOverdueDays = (task: TaskDto, now: Date = new Date()): number =>
+  isOverdue(task, now) ? Math.floor((now.getTime() - new Date(task.dueDate).getTime()) / DAY_MS) : 0;
+
+/**
+ * Move the overdue tasks to the front, keeping the order within both groups
+ * @param tasks The tasks in display order
+ * @param now The current time
+ * @returns The tasks with the overdue ones first
+ */
+export const pinOverdueTasks = (tasks: TaskDto[], now: Date = new Date()): TaskDto[] => [
+  ...tasks.filter(task => isOverdue(task, now)),
+  ...tasks.filter(task => !isOverdue(task, now))
+];
+
+/**
+ * Get the new due date for a reschedule option
+ * @param task The task; the time of day of its due date is kept
+ * @param option The chosen option
+ * @param now The current time
+ * @returns The new due date; next week is the same weekday a week from today
+ */
+export const getRescheduleDate = (task: TaskDto, option: RescheduleOption, now: Date = new Date()): Date => {
+  const days = { today: 0, tomorrow: 1, nextWeek: 7 }[option];
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days);
+  const date = moveToDay(task, day);
+  // Keeping the time of day could leave a task rescheduled to today overdue, use the end of the day then
+  return date < now ? new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59) : date;
+};
+
+/**
+ * Raise an urgency by a number of steps
+ * @param urgency The current urgency
+ * @param steps Number of steps to raise it by
+ * @returns The raised urgency, at most HIGH
+ */
+export const raiseUrgency = (urgency: TaskDto['urgency'], steps: number = 1): TaskDto['urgency'] =>
+  URGENCY_STEPS[Math.min(URGENCY_STEPS.length - 1, URGENCY_STEPS.indexOf(urgency) + steps)];
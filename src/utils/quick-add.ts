@@ -0,0 +1,365 @@
+/**
+ * Utility functions for parsing one-line quick-add text like "Call Bob tomorrow 3pm !high #work" into a task
+ *
+ * Recognized tokens:
+ * - Dates: today, tonight, tomorrow, eod, weekday names ("friday", "next friday"), "next week",
+ *   "next month", "in 3 days" / "in a week" / "in 2 months", ISO dates and "oct 21" / "21st october",
+ *   optionally preceded by "on" or "by"
+ * - Times: 3pm, 3:30pm, 3 pm, 15:00 and noon, optionally preceded by "at"
+ * - Urgency: !high, !medium, !low (or !h, !m, !l)
+ * - Tags: #work
+ * - Projects: @name, matched against the given projects
+ *
+ * Everything else becomes the task name.
+ */
+import { type CreateTaskDto, type TaskDto } from '../types/models';
+import { formatDateTimeInput } from './formatters';
+import { normalizeTag } from './tags';
+
+export type QuickAddTokenType = 'date' | 'time' | 'urgency' | 'tag' | 'project';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  // The recognized text as typed
+  text: string;
+  // Position of the text in the input
+  start: number;
+  end: number;
+}
+
+export interface QuickAddProject {
+  id: string;
+  name: string;
+}
+
+export interface QuickAddOptions {
+  // The current time, relative dates are resolved against it
+  now?: Date;
+  // Projects that can be referenced with @name
+  projects?: QuickAddProject[];
+}
+
+export interface QuickAddResult {
+  task: CreateTaskDto;
+  tokens: QuickAddToken[];
+}
+
+interface Word {
+  text: string;
+  // Lower case text without trailing punctuation
+  clean: string;
+  start: number;
+  end: number;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+interface DateMatch {
+  day: Date;
+  // Time implied by the date itself, e.g. "tonight"
+  time?: TimeOfDay;
+}
+
+interface Match<T> {
+  value: T;
+  // Number of words consumed
+  length: number;
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+const URGENCIES: Record<string, TaskDto['urgency']> = {
+  high: 'HIGH',
+  h: 'HIGH',
+  urgent: 'HIGH',
+  medium: 'MEDIUM',
+  med: 'MEDIUM',
+  m: 'MEDIUM',
+  low: 'LOW',
+  l: 'LOW'
+};
+
+// Time used for dates without a time, matching the end-of-day default of the board and calendar
+const END_OF_DAY: TimeOfDay = { hours: 23, minutes: 59 };
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Month names may be abbreviated to three letters, "sept" is accepted as well
+const parseMonth = (word: string): number => {
+  if (word.length < 3) return -1;
+  return MONTH_NAMES.findIndex(name => name === word || name.slice(0, 3) === word || (word === 'sept' && name === 'september'));
+};
+
+// Day of month with an optional ordinal suffix, e.g. "21" or "21st"
+const parseDayOfMonth = (word: string): number | null => {
+  const match = /^(\d{1,2})(st|nd|rd|th)?$/.exec(word);
+  if (!match) return null;
+  const day = Number(match[1]);
+  return day >= 1 && day <= 31 ? day : null;
+};
+
+// The next occurrence of a month and day, this year or next year
+const nextMonthDay = (month: number, day: number, today: Date): Date | null => {
+  let date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null; // e.g. February 30th
+  if (date < today) {
+    date = new Date(today.getFullYear() + 1, month, day);
+  }
+  return date;
+};
+
+const matchDate = (words: Word[], i: number, now: Date): Match<DateMatch> | null => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const word = words[i].clean;
+  const next = words[i + 1]?.clean;
+
+  switch (word) {
+    case 'today':
+      return { value: { day: today }, length: 1 };
+    case 'tonight':
+      return { value: { day: today, time: { hours: 20, minutes: 0 } }, length: 1 };
+    case 'eod':
+      return { value: { day: today, time: END_OF_DAY }, length: 1 };
+    case 'tomorrow':
+    case 'tmrw':
+    case 'tmr':
+      return { value: { day: addDays(today, 1) }, length: 1 };
+  }
+
+  // Weekdays are always in the future, "friday" on a Friday means next week
+  const weekday = WEEKDAY_NAMES.indexOf(word);
+  if (weekday >= 0) {
+    return { value: { day: addDays(today, (weekday - today.getDay() + 7) % 7 || 7) }, length: 1 };
+  }
+
+  if (word === 'next' && next) {
+    const nextMonday = addDays(today, (8 - today.getDay()) % 7 || 7);
+    if (next === 'week') {
+      return { value: { day: nextMonday }, length: 2 };
+    }
+    if (next === 'month') {
+      return { value: { day: new Date(today.getFullYear(), today.getMonth() + 1, 1) }, length: 2 };
+    }
+    // "next friday" is the Friday of next week
+    const nextWeekday = WEEKDAY_NAMES.indexOf(next);
+    if (nextWeekday >= 0) {
+      return { value: { day: addDays(nextMonday, (nextWeekday + 6) % 7) }, length: 2 };
+    }
+  }
+
+  // "in 3 days", "in a week", "in 2 months"
+  if (word === 'in' && next && words[i + 2]) {
+    const amount = /^\d+$/.test(next) ? Number(next) : NUMBER_WORDS[next];
+    const unit = words[i + 2].clean.replace(/s$/, '');
+    if (amount !== undefined) {
+      if (unit === 'day') return { value: { day: addDays(today, amount) }, length: 3 };
+      if (unit === 'week') return { value: { day: addDays(today, amount * 7) }, length: 3 };
+      if (unit === 'month') {
+        return { value: { day: new Date(today.getFullYear(), today.getMonth() + amount, today.getDate()) }, length: 3 };
+      }
+    }
+  }
+
+  // ISO dates
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+  if (iso) {
+    const day = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return day.getDate() === Number(iso[3]) ? { value: { day }, length: 1 } : null;
+  }
+
+  // "oct 21" and "21 oct"
+  if (next) {
+    const month = parseMonth(word);
+    const dayOfMonth = parseDayOfMonth(next);
+    const reversedMonth = parseMonth(next);
+    const reversedDay = parseDayOfMonth(word);
+    const day = month >= 0 && dayOfMonth !== null
+      ? nextMonthDay(month, dayOfMonth, today)
+      : reversedMonth >= 0 && reversedDay !== null
+        ? nextMonthDay(reversedMonth, reversedDay, today)
+        : null;
+    if (day) {
+      return { value: { day }, length: 2 };
+    }
+  }
+
+  return null;
+};
+
+const toTime = (hours: number, minutes: number, meridiem?: string): TimeOfDay | null => {
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return hours <= 23 && minutes <= 59 ? { hours, minutes } : null;
+};
+
+const matchTime = (words: Word[], i: number): Match<TimeOfDay> | null => {
+  const word = words[i].clean;
+  const next = words[i + 1]?.clean;
+
+  if (word === 'noon') {
+    return { value: { hours: 12, minutes: 0 }, length: 1 };
+  }
+
+  // "3pm", "3:30pm" and "15:00"
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(word);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3] || match[2]) {
+    const time = toTime(hours, minutes, match[3]);
+    return time ? { value: time, length: 1 } : null;
+  }
+
+  // "3 pm"
+  if (next === 'am' || next === 'pm') {
+    const time = toTime(hours, minutes, next);
+    return time ? { value: time, length: 2 } : null;
+  }
+
+  return null;
+};
+
+// Allow a preposition such as "on friday" or "at 3pm" in front of a match
+const withPreposition = <T>(
+  prepositions: string[],
+  matcher: (words: Word[], i: number) => Match<T> | null
+) => (words: Word[], i: number): Match<T> | null => {
+  const match = matcher(words, i);
+  if (match || !prepositions.includes(words[i].clean) || !words[i + 1]) {
+    return match;
+  }
+
+  const shifted = matcher(words, i + 1);
+  return shifted ? { value: shifted.value, length: shifted.length + 1 } : null;
+};
+
+/**
+ * Parse quick-add text into a task
+ * @param input The text as typed by the user
+ * @param options The current time and the projects that can be referenced
+ * @returns The task to create and the recognized tokens in input order
+ */
+export const parseQuickAdd = (input: string, options: QuickAddOptions = {}): QuickAddResult => {
+  const now = options.now || new Date();
+  const projects = options.projects || [];
+
+  const words: Word[] = [...input.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    clean: match[0].toLowerCase().replace(/[,;.]+$/, ''),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+
+  const dateMatcher = withPreposition(['on', 'by'], (w, i) => matchDate(w, i, now));
+  const timeMatcher = withPreposition(['at'], matchTime);
+
+  const tokens: QuickAddToken[] = [];
+  const nameParts: string[] = [];
+  let date: DateMatch | null = null;
+  let time: TimeOfDay | null = null;
+  let urgency: TaskDto['urgency'] | null = null;
+  let projectId: string | null = null;
+  const tags: string[] = [];
+
+  const addToken = (type: QuickAddTokenType, from: number, length: number) => {
+    tokens.push({
+      type,
+      text: input.slice(words[from].start, words[from + length - 1].end),
+      start: words[from].start,
+      end: words[from + length - 1].end
+    });
+  };
+
+  for (let i = 0; i < words.length;) {
+    const word = words[i];
+
+    // Only the first date, time, urgency and project are used, later ones stay part of the name
+    const dateMatch: Match<DateMatch> | null = date ? null : dateMatcher(words, i);
+    if (dateMatch) {
+      date = dateMatch.value;
+      addToken('date', i, dateMatch.length);
+      i += dateMatch.length;
+      continue;
+    }
+
+    const timeMatch: Match<TimeOfDay> | null = time ? null : timeMatcher(words, i);
+    if (timeMatch) {
+      time = timeMatch.value;
+      addToken('time', i, timeMatch.length);
+      i += timeMatch.length;
+      continue;
+    }
+
+    const urgencyMatch = /^!(\w+)$/.exec(word.clean);
+    if (!urgency && urgencyMatch && URGENCIES[urgencyMatch[1]]) {
+      urgency = URGENCIES[urgencyMatch[1]];
+      addToken('urgency', i, 1);
+      i++;
+      continue;
+    }
+
+    if (/^#[\p{L}\p{N}_-]+$/u.test(word.clean)) {
+      tags.push(normalizeTag(word.clean));
+      addToken('tag', i, 1);
+      i++;
+      continue;
+    }
+
+    const project: QuickAddProject | undefined = !projectId && word.clean.startsWith('@')
+      ? projects.find(p => normalizeTag(p.name) === normalizeTag(word.clean.slice(1)))
+      : undefined;
+    if (project) {
+      projectId = project.id;
+      addToken('project', i, 1);
+      i++;
+      continue;
+    }
+
+    nameParts.push(word.text);
+    i++;
+  }
+
+  // Resolve the due date; a time on its own means the next time that time of day comes around
+  let dueDate: Date | null = null;
+  // A day without a time, "eod" included, is due all day
+  const allDay = !!date && !time && (date.time || END_OF_DAY) === END_OF_DAY;
+  if (date) {
+    const { hours, minutes } = time || date.time || END_OF_DAY;
+    dueDate = new Date(date.day.getFullYear(), date.day.getMonth(), date.day.getDate(), hours, minutes);
+  } else if (time) {
+    dueDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), time.hours, time.minutes);
+    if (dueDate <= now) {
+      dueDate = addDays(dueDate, 1);
+      dueDate.setHours(time.hours, time.minutes);
+    }
+  }
+
+  const task: CreateTaskDto = {
+    name: nameParts.join(' '),
+    description: '',
+    dueDate: dueDate ? formatDateTimeInput(dueDate) : '',
+    allDay,
+    urgency: urgency || 'MEDIUM',
+    subtasks: [],
+    tags: [...new Set(tags)]
+  };
+  if (projectId) {
+    task.projectId = projectId;
+  }
+
+  return { task, tokens };
+};
@@ -0,0 +1,241 @@
+/**
+ * Recurrence engine for repeating tasks
+ *
+ * Supports a subset of RFC 5545 RRULE semantics: daily, weekly on chosen weekdays,
+ * monthly by day of month or by nth weekday, and yearly (on the day of month of the
+ * first occurrence, clamped to short months), each with an interval
+ * and an optional end condition (until a date or a number of occurrences).
+ */
+import { type CreateTaskDto, type RecurrenceRuleDto, type TaskDto, type Weekday } from '../types/models';
+import { formatDate, formatDateTimeInput } from './formatters';
+
+// Weekdays in ISO order (Monday first) with their JavaScript Date.getDay() index
+export const WEEKDAYS: { value: Weekday; title: string; jsDay: number }[] = [
+  { value: 'MO', title: 'Mon', jsDay: 1 },
+  { value: 'TU', title: 'Tue', jsDay: 2 },
+  { value: 'WE', title: 'Wed', jsDay: 3 },
+  { value: 'TH', title: 'Thu', jsDay: 4 },
+  { value: 'FR', title: 'Fri', jsDay: 5 },
+  { value: 'SA', title: 'Sat', jsDay: 6 },
+  { value: 'SU', title: 'Sun', jsDay: 0 }
+];
+
+const WORKING_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+// Upper bound for candidate periods scanned when looking for the next occurrence
+const MAX_ITERATIONS = 1000;
+
+const weekdayToJsDay = (weekday: Weekday): number =>
+  WEEKDAYS.find(day => day.value === weekday)!.jsDay;
+
+/**
+ * Get the weekday code for a date
+ * @param date The date to inspect
+ * @returns The two-letter weekday code
+ */
+export const getWeekday = (date: Date): Weekday =>
+  WEEKDAYS.find(day => day.jsDay === date.getDay())!.value;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(year, month + 1, 0).getDate();
+
+// Create a date in the given month, keeping the time of day of the reference date
+const atTimeOf = (reference: Date, year: number, month: number, day: number): Date =>
+  new Date(year, month, day, reference.getHours(), reference.getMinutes(), reference.getSeconds());
+
+// Resolve the day of the month for a BY_MONTH_DAY rule, clamping to short months
+const resolveMonthDay = (rule: RecurrenceRuleDto, year: number, month: number, fallback: number): number => {
+  const lastDay = daysInMonth(year, month);
+  const monthDay = rule.byMonthDay ?? fallback;
+  return monthDay < 0 ? lastDay : Math.min(monthDay, lastDay);
+};
+
+// Resolve the day of the month for a BY_WEEKDAY rule, e.g. the 2nd Monday or the last Friday
+const resolveNthWeekday = (year: number, month: number, weekday: Weekday, position: number): number => {
+  const jsDay = weekdayToJsDay(weekday);
+  if (position < 0) {
+    const lastDay = daysInMonth(year, month);
+    const lastWeekday = new Date(year, month, lastDay).getDay();
+    return lastDay - ((lastWeekday - jsDay + 7) % 7);
+  }
+
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const firstMatch = 1 + ((jsDay - firstWeekday + 7) % 7);
+  return Math.min(firstMatch + (position - 1) * 7, daysInMonth(year, month));
+};
+
+/**
+ * Calculate the next occurrence strictly after the given date
+ * @param rule The recurrence rule
+ * @param from The date of the current occurrence
+ * @returns The next occurrence, or null if the rule has ended
+ */
+export const getNextOccurrence = (rule: RecurrenceRuleDto, from: Date): Date | null => {
+  if (rule.end === 'COUNT' && (rule.count ?? 0) <= 1) {
+    return null;
+  }
+
+  const interval = Math.max(1, rule.interval || 1);
+  let next: Date | null = null;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      next = atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() + interval);
+      break;
+
+    case 'WEEKLY': {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [getWeekday(from)];
+      const offsets = WEEKDAYS
+        .map((day, index) => ({ day, index }))
+        .filter(({ day }) => weekdays.includes(day.value))
+        .map(({ index }) => index);
+      // Start of the ISO week (Monday) containing the current occurrence
+      const weekStartOffset = (from.getDay() + 6) % 7;
+
+      for (let week = 0; week < MAX_ITERATIONS && !next; week += interval) {
+        for (const offset of offsets) {
+          const candidate = atTimeOf(from, from.getFullYear(), from.getMonth(), from.getDate() - weekStartOffset + week * 7 + offset);
+          if (candidate > from) {
+            next = candidate;
+            break;
+          }
+        }
+      }
+      break;
+    }
+
+    case 'MONTHLY':
+      for (let step = 0; step < MAX_ITERATIONS && !next; step += interval) {
+        const monthStart = new Date(from.getFullYear(), from.getMonth() + step, 1);
+        const year = monthStart.getFullYear();
+        const month = monthStart.getMonth();
+        const day = rule.monthlyMode === 'BY_WEEKDAY'
+          ? resolveNthWeekday(year, month, rule.byWeekday?.[0] ?? getWeekday(from), rule.bySetPosition ?? 1)
+          : resolveMonthDay(rule, year, month, from.getDate());
+        const candidate = atTimeOf(from, year, month, day);
+        if (candidate > from) {
+          next = candidate;
+        }
+      }
+      break;
+
+    case 'YEARLY': {
+      const year = from.getFullYear() + interval;
+      next = atTimeOf(from, year, from.getMonth(), resolveMonthDay(rule, year, from.getMonth(), from.getDate()));
+      break;
+    }
+  }
+
+  if (next && rule.end === 'UNTIL' && rule.until) {
+    // The end date is a local calendar day and includes the whole day
+    const until = new Date(`${rule.until.slice(0, 10)}T00:00`);
+    until.setHours(23, 59, 59, 999);
+    if (next > until) {
+      return null;
+    }
+  }
+
+  return next;
+};
+
+/**
+ * Build the task for the next occurrence of a completed recurring task
+ * @param task The recurring task that has just been completed
+ * @returns The data for the next task, or null if the task does not recur anymore
+ */
+export const buildNextOccurrence = (task: TaskDto): CreateTaskDto | null => {
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const from = task.dueDate ? new Date(task.dueDate) : new Date();
+  const nextDate = getNextOccurrence(task.recurrence, from);
+  if (!nextDate) {
+    return null;
+  }
+
+  const recurrence: RecurrenceRuleDto = { ...task.recurrence };
+  // Keep the day the rule started on; otherwise a date clamped in a short month (31st -> 28th)
+  // would become the day of every later occurrence
+  const keepsMonthDay = recurrence.frequency === 'YEARLY' ||
+    (recurrence.frequency === 'MONTHLY' && recurrence.monthlyMode !== 'BY_WEEKDAY');
+  if (keepsMonthDay && recurrence.byMonthDay === undefined) {
+    recurrence.byMonthDay = from.getDate();
+  }
+  if (recurrence.end === 'COUNT') {
+    recurrence.count = (recurrence.count ?? 1) - 1;
+  }
+
+  return {
+    name: task.name,
+    description: task.description,
+    dueDate: formatDateTimeInput(nextDate),
+    allDay: task.allDay,
+    urgency: task.urgency,
+    importance: task.importance,
+    // Checklist items start over for every occurrence
+    subtasks: (task.subtasks || []).map(subtask => ({ title: subtask.title, completed: false })),
+    recurrence,
+    tags: task.tags,
+    projectId: task.projectId,
+    // Reminders before the due date move with it, reminders at a fixed time are not repeated
+    reminders: (task.reminders || []).filter(reminder => !reminder.at),
+    estimateMinutes: task.estimateMinutes
+  };
+};
+
+const ordinal = (position: number): string => {
+  if (position < 0) return 'last';
+  return ['1st', '2nd', '3rd', '4th'][position - 1] ?? `${position}th`;
+};
+
+const weekdayTitle = (weekday: Weekday): string =>
+  WEEKDAYS.find(day => day.value === weekday)!.title;
+
+/**
+ * Describe a recurrence rule in human-readable form, e.g. "every 2 weeks on Mon"
+ * @param rule The recurrence rule
+ * @returns The summary text
+ */
+export const describeRecurrence = (rule: RecurrenceRuleDto): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const every = (unit: string) => interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+  let summary: string;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      summary = every('day');
+      break;
+    case 'WEEKLY': {
+      const weekdays = WEEKDAYS.filter(day => rule.byWeekday?.includes(day.value)).map(day => day.value);
+      if (interval === 1 && weekdays.length === WORKING_DAYS.length && WORKING_DAYS.every(day => weekdays.includes(day))) {
+        summary = 'every weekday';
+      } else {
+        summary = weekdays.length > 0
+          ? `${every('week')} on ${weekdays.map(weekdayTitle).join(', ')}`
+          : every('week');
+      }
+      break;
+    }
+    case 'MONTHLY':
+      if (rule.monthlyMode === 'BY_WEEKDAY' && rule.byWeekday?.[0]) {
+        summary = `${every('month')} on the ${ordinal(rule.bySetPosition ?? 1)} ${weekdayTitle(rule.byWeekday[0])}`;
+      } else if (rule.byMonthDay !== undefined && rule.byMonthDay < 0) {
+        summary = `${every('month')} on the last day`;
+      } else {
+        summary = rule.byMonthDay ? `${every('month')} on day ${rule.byMonthDay}` : every('month');
+      }
+      break;
+    case 'YEARLY':
+      summary = every('year');
+      break;
+  }
+
+  if (rule.end === 'UNTIL' && rule.until) {
+    summary += ` until ${formatDate(`${rule.until.slice(0, 10)}T00:00`)}`;
+  } else if (rule.end === 'COUNT' && rule.count) {
+    summary += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'} left`;
+  }
+
+  return summary;
+};
@@ -0,0 +1,80 @@
+/**
+ * Utility functions for due date reminders
+ */
+import { type TaskDto, type TaskReminderDto } from '../types/models';
+import { formatDate, formatTime } from './formatters';
+
+export const REMINDER_OFFSETS: { title: string; value: number }[] = [
+  { title: 'At due time', value: 0 },
+  { title: '10 minutes before', value: 10 },
+  { title: '30 minutes before', value: 30 },
+  { title: '1 hour before', value: 60 },
+  { title: '1 day before', value: 24 * 60 }
+];
+
+// Reminders missed while the app was closed or asleep are still shown if they are not older than this
+export const MISSED_REMINDER_GRACE_MS = 60 * 60 * 1000;
+
+export interface ScheduledReminder {
+  // Identifies the reminder with its time, so that moving the due date arms it again
+  key: string;
+  task: TaskDto;
+  time: number;
+}
+
+/**
+ * Get the time a reminder goes off
+ * @param task The task
+ * @param reminder The reminder
+ * @returns The time in milliseconds, or null if an offset reminder has no due date to count from
+ */
+export const getReminderTime = (task: TaskDto, reminder: TaskReminderDto): number | null => {
+  if (reminder.at) return new Date(reminder.at).getTime();
+  if (reminder.offsetMinutes === undefined || !task.dueDate) return null;
+  return new Date(task.dueDate).getTime() - reminder.offsetMinutes * 60 * 1000;
+};
+
+/**
+ * Get the reminders of open tasks
+ * @param tasks The tasks
+ * @returns The reminders sorted by time; reminders at the same time of a task are only listed once
+ */
+export const getScheduledReminders = (tasks: TaskDto[]): ScheduledReminder[] => {
+  const reminders = new Map<string, ScheduledReminder>();
+  tasks.filter(task => !task.completed).forEach(task => {
+    (task.reminders || []).forEach(reminder => {
+      const time = getReminderTime(task, reminder);
+      if (time === null || isNaN(time)) return;
+      const key = `${task.id}@${time}`;
+      reminders.set(key, { key, task, time });
+    });
+  });
+  return [...reminders.values()].sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Describe a reminder in a few words
+ * @param reminder The reminder
+ * @returns e.g. '1 hour before'
+ */
+export const describeReminder = (reminder: TaskReminderDto): string => {
+  if (reminder.at) return `${formatDate(reminder.at)} ${formatTime(reminder.at)}`;
+  const preset = REMINDER_OFFSETS.find(offset => offset.value === reminder.offsetMinutes);
+  if (preset) return preset.title;
+  return `${reminder.offsetMinutes} minutes before`;
+};
+
+/**
+ * Build the message shown when a reminder goes off
+ * @param task The task
+ * @param now The current time
+ * @returns e.g. 'Write report is due in 10 minutes'
+ */
+export const getReminderMessage = (task: TaskDto, now: number = Date.now()): string => {
+  if (!task.dueDate) return `Reminder: ${task.name}`;
+  const minutes = Math.round((new Date(task.dueDate).getTime() - now) / 60000);
+  if (minutes < 0) return `${task.name} was due at ${formatTime(task.dueDate)}`;
+  if (minutes === 0) return `${task.name} is due now`;
+  if (minutes < 60) return `${task.name} is due in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return `${task.name} is due ${formatDate(task.dueDate)} at ${formatTime(task.dueDate)}`;
+};
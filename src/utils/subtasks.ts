@@ -0,0 +1,26 @@
+/**
+ * Utility functions for working with task checklists (subtasks)
+ */
+import { type SubtaskDto } from '../types/models';
+
+/**
+ * Count the completed and total checklist items
+ * @param subtasks The checklist items of a task
+ * @returns Object with the number of completed items and the total number of items
+ */
+export const getSubtaskProgress = (subtasks?: SubtaskDto[]): { completed: number; total: number } => {
+  const items = subtasks || [];
+  return {
+    completed: items.filter(subtask => subtask.completed).length,
+    total: items.length
+  };
+};
+
+/**
+ * Check if every checklist item is completed
+ * @param subtasks The checklist items of a task
+ * @returns True if there is at least one item and all items are completed
+ */
+export const areAllSubtasksCompleted = (subtasks?: SubtaskDto[]): boolean => {
+  return !!subtasks && subtasks.length > 0 && subtasks.every(subtask => subtask.completed);
+};
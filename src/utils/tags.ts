@@ -0,0 +1,50 @@
+/**
+ * Utility functions for task tags
+ */
+
+// Colors offered for tags, all of them Vuetify color names
+export const TAG_COLORS = [
+  'blue',
+  'green',
+  'orange',
+  'purple',
+  'teal',
+  'pink',
+  'indigo',
+  'brown',
+  'cyan',
+  'deep-orange',
+  'lime',
+  'blue-grey'
+];
+
+/**
+ * Normalize a tag name so that "Work", " work " and "work" are the same tag
+ * @param name The tag name as entered by the user
+ * @returns The normalized tag name, lower case with dashes instead of whitespace
+ */
+export const normalizeTag = (name: string): string => {
+  return name.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-');
+};
+
+/**
+ * Normalize a list of tag names and remove empty entries and duplicates
+ * @param names The tag names to normalize
+ * @returns The normalized, unique tag names in their original order
+ */
+export const normalizeTags = (names: string[]): string[] => {
+  return [...new Set(names.map(normalizeTag).filter(name => name.length > 0))];
+};
+
+/**
+ * Get a stable default color for a tag that has no color assigned yet
+ * @param name The tag name
+ * @returns A color from TAG_COLORS derived from the tag name
+ */
+export const getDefaultTagColor = (name: string): string => {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+};
@@ -0,0 +1,119 @@
+/**
+ * Utility functions for exporting tasks as JSON, CSV and Markdown checklists
+ */
+import { type TaskDto } from '../types/models';
+import { toCsv } from './csv';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export const EXPORT_FORMATS: { title: string; value: ExportFormat }[] = [
+  { title: 'JSON (complete, can be imported again)', value: 'json' },
+  { title: 'CSV (spreadsheets)', value: 'csv' },
+  { title: 'Markdown checklist', value: 'markdown' }
+];
+
+// Version of the JSON export, raised when its layout changes
+export const TASK_EXPORT_VERSION = 1;
+
+// Columns of the CSV export, also recognized by the import
+export const CSV_COLUMNS = ['name', 'description', 'dueDate', 'urgency', 'completed', 'tags', 'estimateMinutes'] as const;
+
+export interface ExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Export tasks as JSON with all their fields
+ * @param tasks The tasks
+ * @param now The time of the export
+ * @returns The JSON text
+ */
+export const exportTasksAsJson = (tasks: TaskDto[], now: Date = new Date()): string =>
+  JSON.stringify({ version: TASK_EXPORT_VERSION, exportedAt: now.toISOString(), tasks }, null, 2);
+
+/**
+ * Export tasks as CSV with one task per row
+ * Tags are separated by semicolons; checklists and other nested fields are left out
+ * @param tasks The tasks
+ * @returns The CSV text
+ */
+export const exportTasksAsCsv = (tasks: TaskDto[]): string =>
+  toCsv([
+    [...CSV_COLUMNS],
+    ...tasks.map(task => [
+      task.name,
+      task.description || '',
+      task.dueDate || '',
+      task.urgency,
+      task.completed ? 'true' : 'false',
+      (task.tags || []).join(';'),
+      task.estimateMinutes != null ? task.estimateMinutes.toString() : ''
+    ])
+  ]);
+
+// Due date as 'YYYY-MM-DD HH:mm' in local time, without the time for all-day tasks
+const formatMarkdownDate = (task: TaskDto): string => {
+  const due = new Date(task.dueDate);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const day = `${due.getFullYear()}-${pad(due.getMonth() + 1)}-${pad(due.getDate())}`;
+  return task.allDay ? day : `${day} ${pad(due.getHours())}:${pad(due.getMinutes())}`;
+};
+
+/**
+ * Export tasks as a Markdown checklist
+ * Each task is a checklist item with its due date, urgency and tags; its checklist
+ * items are nested below it, followed by the description
+ * @param tasks The tasks
+ * @returns The Markdown text
+ */
+export const exportTasksAsMarkdown = (tasks: TaskDto[]): string =>
+  tasks.map(task => {
+    const details = [
+      task.dueDate ? `(due: ${formatMarkdownDate(task)})` : '',
+      task.urgency !== 'MEDIUM' ? `!${task.urgency.toLowerCase()}` : '',
+      ...(task.tags || []).map(tag => `#${tag}`)
+    ].filter(detail => detail);
+    const lines = [`- [${task.completed ? 'x' : ' '}] ${[task.name.replace(/\s+/g, ' '), ...details].join(' ')}`];
+
+    (task.subtasks || []).forEach(subtask => {
+      lines.push(`  - [${subtask.completed ? 'x' : ' '}] ${subtask.title}`);
+    });
+    if (task.description?.trim()) {
+      task.description.trim().split(/\r?\n/).forEach(line => lines.push(line ? `  ${line}` : ''));
+    }
+    return lines.join('\n');
+  }).join('\n') + '\n';
+
+/**
+ * Export tasks in a format
+ * @param tasks The tasks
+ * @param format The export format
+ * @param now The time of the export, used in the file name
+ * @returns The file content, name and type
+ */
+export const exportTasks = (tasks: TaskDto[], format: ExportFormat, now: Date = new Date()): ExportFile => {
+  const baseName = `tasks-${now.toISOString().slice(0, 10)}`;
+  switch (format) {
+    case 'json':
+      return { content: exportTasksAsJson(tasks, now), fileName: `${baseName}.json`, mimeType: 'application/json' };
+    case 'csv':
+      return { content: exportTasksAsCsv(tasks), fileName: `${baseName}.csv`, mimeType: 'text/csv' };
+    case 'markdown':
+      return { content: exportTasksAsMarkdown(tasks), fileName: `${baseName}.md`, mimeType: 'text/markdown' };
+  }
+};
+
+/**
+ * Let the browser download a file
+ * @param file The file content, name and type
+ */
+export const downloadFile = (file: ExportFile): void => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
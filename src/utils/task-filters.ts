@@ -0,0 +1,182 @@
+/**
+ * Utility functions for the task filter state and its representation in the route query
+ */
+import { type LocationQuery, type LocationQueryRaw } from 'vue-router';
+import { type TaskDto } from '../types/models';
+import { getDueBucket } from './board';
+
+export type TaskTypeFilter = 'all' | 'owned' | 'shared' | 'archived' | 'trash';
+
+export type UrgencyFilter = 'ALL' | 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type DueFilter = 'ALL' | 'OVERDUE' | 'TODAY' | 'WEEK' | 'NO_DATE';
+
+export const DUE_FILTERS: { title: string; value: DueFilter }[] = [
+  { title: 'Any time', value: 'ALL' },
+  { title: 'Overdue', value: 'OVERDUE' },
+  { title: 'Due today', value: 'TODAY' },
+  { title: 'Due this week', value: 'WEEK' },
+  { title: 'No due date', value: 'NO_DATE' }
+];
+
+export interface TaskFilterState {
+  type: TaskTypeFilter;
+  urgency: UrgencyFilter;
+  due: DueFilter;
+  showCompleted: boolean;
+  search: string;
+  tags: string[];
+  tagMatchMode: 'any' | 'all';
+  // 'ALL', 'NONE' or a project ID
+  project: string;
+  actionableOnly: boolean;
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilterState = {
+  type: 'all',
+  urgency: 'ALL',
+  due: 'ALL',
+  showCompleted: false,
+  search: '',
+  tags: [],
+  tagMatchMode: 'any',
+  project: 'ALL',
+  actionableOnly: false
+};
+
+// Query parameter used for each filter
+const QUERY_KEYS: Record<keyof TaskFilterState, string> = {
+  type: 'type',
+  urgency: 'urgency',
+  due: 'due',
+  showCompleted: 'completed',
+  search: 'q',
+  tags: 'tags',
+  tagMatchMode: 'tagMode',
+  project: 'project',
+  actionableOnly: 'actionable'
+};
+
+const TASK_TYPES: TaskTypeFilter[] = ['all', 'owned', 'shared', 'archived', 'trash'];
+const URGENCIES: UrgencyFilter[] = ['ALL', 'LOW', 'MEDIUM', 'HIGH'];
+const DUE_VALUES = DUE_FILTERS.map(filter => filter.value);
+
+// First value of a query parameter, which may be repeated
+const getParam = (query: LocationQuery, key: string): string | null => {
+  const value = query[key];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+/**
+ * Read the filter state from a route query
+ * @param query The route query; missing or invalid parameters fall back to the defaults
+ * @returns The filter state
+ */
+export const filtersFromQuery = (query: LocationQuery): TaskFilterState => {
+  const type = getParam(query, QUERY_KEYS.type) as TaskTypeFilter;
+  const urgency = getParam(query, QUERY_KEYS.urgency) as UrgencyFilter;
+  const due = getParam(query, QUERY_KEYS.due) as DueFilter;
+  const tags = getParam(query, QUERY_KEYS.tags);
+
+  return {
+    type: TASK_TYPES.includes(type) ? type : DEFAULT_TASK_FILTERS.type,
+    urgency: URGENCIES.includes(urgency) ? urgency : DEFAULT_TASK_FILTERS.urgency,
+    due: DUE_VALUES.includes(due) ? due : DEFAULT_TASK_FILTERS.due,
+    showCompleted: getParam(query, QUERY_KEYS.showCompleted) === '1',
+    search: getParam(query, QUERY_KEYS.search) || '',
+    tags: tags ? tags.split(',').filter(tag => tag.length > 0) : [],
+    tagMatchMode: getParam(query, QUERY_KEYS.tagMatchMode) === 'all' ? 'all' : 'any',
+    project: getParam(query, QUERY_KEYS.project) || DEFAULT_TASK_FILTERS.project,
+    actionableOnly: getParam(query, QUERY_KEYS.actionableOnly) === '1'
+  };
+};
+
+/**
+ * Write the filter state into a route query
+ * Filters at their default value are left out to keep URLs short
+ * @param query The current route query; parameters that are not filters are kept
+ * @param filters The filter state
+ * @returns The new route query
+ */
+export const filtersToQuery = (query: LocationQuery, filters: TaskFilterState): LocationQueryRaw => {
+  const result: LocationQueryRaw = { ...query };
+  Object.values(QUERY_KEYS).forEach(key => delete result[key]);
+
+  if (filters.type !== DEFAULT_TASK_FILTERS.type) result[QUERY_KEYS.type] = filters.type;
+  if (filters.urgency !== DEFAULT_TASK_FILTERS.urgency) result[QUERY_KEYS.urgency] = filters.urgency;
+  if (filters.due !== DEFAULT_TASK_FILTERS.due) result[QUERY_KEYS.due] = filters.due;
+  if (filters.showCompleted) result[QUERY_KEYS.showCompleted] = '1';
+  if (filters.search) result[QUERY_KEYS.search] = filters.search;
+  if (filters.tags.length > 0) result[QUERY_KEYS.tags] = filters.tags.join(',');
+  if (filters.tagMatchMode !== DEFAULT_TASK_FILTERS.tagMatchMode) result[QUERY_KEYS.tagMatchMode] = filters.tagMatchMode;
+  if (filters.project !== DEFAULT_TASK_FILTERS.project) result[QUERY_KEYS.project] = filters.project;
+  if (filters.actionableOnly) result[QUERY_KEYS.actionableOnly] = '1';
+
+  return result;
+};
+
+/**
+ * Check whether a task type shows the archive or the trash instead of the active tasks
+ * @param type The task type filter
+ * @returns True for the archive and the trash
+ */
+export const isArchiveOrTrash = (type: TaskTypeFilter): type is 'archived' | 'trash' =>
+  type === 'archived' || type === 'trash';
+
+/**
+ * Check whether a task matches a due date filter
+ * @param task The task
+ * @param due The due date filter
+ * @param now The current time
+ * @returns True if the task is due in the filtered period; "this week" includes today
+ */
+export const matchesDueFilter = (task: TaskDto, due: DueFilter, now: Date = new Date()): boolean => {
+  const bucket = getDueBucket(task, now);
+  switch (due) {
+    case 'ALL':
+      return true;
+    case 'OVERDUE':
+      return bucket === 'overdue';
+    case 'TODAY':
+      return bucket === 'today';
+    case 'WEEK':
+      return bucket === 'today' || bucket === 'week';
+    case 'NO_DATE':
+      return bucket === 'none';
+  }
+};
+
+/**
+ * Check whether two filter states are the same
+ * @param a The first filter state
+ * @param b The second filter state
+ * @returns True if all filters match
+ */
+export const areFiltersEqual = (a: TaskFilterState, b: TaskFilterState): boolean => {
+  // Spreading over the defaults gives both the same key order
+  const normalize = (filters: TaskFilterState) =>
+    JSON.stringify({ ...DEFAULT_TASK_FILTERS, ...filters, tags: [...filters.tags].sort() });
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Describe a filter state in a few words, e.g. for a saved view
+ * @param filters The filter state
+ * @returns A short summary, or 'All tasks' if no filter is set
+ */
+export const describeFilters = (filters: TaskFilterState): string => {
+  const parts: string[] = [];
+  if (filters.type === 'owned') parts.push('my tasks');
+  if (filters.type === 'shared') parts.push('shared with me');
+  if (filters.type === 'archived') parts.push('archived');
+  if (filters.type === 'trash') parts.push('in trash');
+  if (filters.urgency !== 'ALL') parts.push(`${filters.urgency.toLowerCase()} urgency`);
+  if (filters.due !== 'ALL') parts.push(DUE_FILTERS.find(filter => filter.value === filters.due)!.title.toLowerCase());
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.tags.length > 0) parts.push(filters.tags.map(tag => `#${tag}`).join(filters.tagMatchMode === 'all' ? ' & ' : ' | '));
+  if (filters.project === 'NONE') parts.push('no project');
+  else if (filters.project !== 'ALL') parts.push('one project');
+  if (filters.showCompleted) parts.push('incl. completed');
+  if (filters.actionableOnly) parts.push('actionable');
+  return parts.length > 0 ? parts.join(', ') : 'All tasks';
+};
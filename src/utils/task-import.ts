@@ -0,0 +1,419 @@
+/**
+ * Utility functions for importing tasks from JSON, CSV, Todoist CSV and Markdown checklists
+ */
+import { type CreateTaskDto, type SubtaskDto, type TaskDto } from '../types/models';
+import { parseCsv } from './csv';
+import { formatDateTimeInput } from './formatters';
+
+export type ImportFormat = 'json' | 'csv' | 'todoist' | 'markdown';
+
+export const IMPORT_FORMATS: { title: string; value: ImportFormat }[] = [
+  { title: 'JSON export', value: 'json' },
+  { title: 'CSV', value: 'csv' },
+  { title: 'Todoist CSV', value: 'todoist' },
+  { title: 'Markdown checklist', value: 'markdown' }
+];
+
+export type ImportField = 'name' | 'description' | 'dueDate' | 'urgency' | 'completed' | 'tags' | 'estimateMinutes';
+
+export const IMPORT_FIELDS: { title: string; value: ImportField }[] = [
+  { title: 'Name', value: 'name' },
+  { title: 'Description', value: 'description' },
+  { title: 'Due date', value: 'dueDate' },
+  { title: 'Urgency', value: 'urgency' },
+  { title: 'Completed', value: 'completed' },
+  { title: 'Tags', value: 'tags' },
+  { title: 'Estimate (minutes)', value: 'estimateMinutes' }
+];
+
+// Column index for each task field, null if the field is not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportTask extends CreateTaskDto {
+  completed?: boolean;
+  // ID of the task in a JSON export; blockedBy holds these IDs until the tasks are created
+  sourceId?: string;
+  pomodoroTimeMillis?: number;
+  focusedTimeMillis?: number;
+}
+
+// Outcome of importing a task; an incomplete task was created, but restoring its
+// dependencies, timer or completion failed, so it must not be imported again
+export interface ImportResult {
+  status: 'created' | 'incomplete' | 'failed';
+  message: string | null;
+}
+
+export interface ImportCandidate {
+  // Row or line in the file, for the error report
+  row: number;
+  task: ImportTask;
+  // Why the task cannot be imported
+  error: string | null;
+  // Parts of the row that were left out
+  warnings: string[];
+  // A task with the same name and due date already exists or comes earlier in the file
+  duplicate: boolean;
+}
+
+// Header names recognized for each field, in lower case
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'title', 'task', 'content'],
+  description: ['description', 'notes', 'note', 'details'],
+  dueDate: ['duedate', 'due date', 'due', 'date', 'deadline'],
+  urgency: ['urgency', 'priority'],
+  completed: ['completed', 'done', 'status', 'checked'],
+  tags: ['tags', 'labels', 'tag', 'label'],
+  estimateMinutes: ['estimateminutes', 'estimate', 'estimate (minutes)']
+};
+
+const URGENCIES: TaskDto['urgency'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const createCandidate = (row: number, task: ImportTask): ImportCandidate =>
+  ({ row, task, error: null, warnings: [], duplicate: false });
+
+/**
+ * Guess the format of an import file
+ * @param fileName The name of the file
+ * @param text The content of the file
+ * @returns The likely format
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json' || /^\s*[[{]/.test(text)) return 'json';
+  if (extension === 'md' || extension === 'markdown' || /^\s*[-*] \[[ xX]\]/m.test(text)) return 'markdown';
+  const header = (parseCsv(text.split(/\r?\n/, 1)[0] || '')[0] || []).map(column => column.trim().toUpperCase());
+  return header.includes('TYPE') && header.includes('CONTENT') ? 'todoist' : 'csv';
+};
+
+/**
+ * Read a CSV file into its header and rows
+ * @param text The CSV text
+ * @returns The header row and the data rows
+ */
+export const readCsvTable = (text: string): CsvTable => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(header => header.trim()), rows };
+};
+
+/**
+ * Guess which column holds each task field
+ * @param headers The header row
+ * @param format 'csv' matches common header names, 'todoist' the columns of a Todoist export
+ * @returns The column mapping
+ */
+export const guessColumnMapping = (headers: string[], format: 'csv' | 'todoist'): ColumnMapping => {
+  const lower = headers.map(header => header.toLowerCase());
+  const find = (...names: string[]) => {
+    const index = lower.findIndex(header => names.includes(header));
+    return index === -1 ? null : index;
+  };
+
+  if (format === 'todoist') {
+    return {
+      name: find('content'),
+      description: find('description'),
+      dueDate: find('date'),
+      urgency: find('priority'),
+      completed: null,
+      tags: null,
+      estimateMinutes: null
+    };
+  }
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(field => [field.value, find(...COLUMN_ALIASES[field.value])])
+  ) as ColumnMapping;
+};
+
+// A due date without a time, which makes the task due all day
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Read a due date in one of the common formats
+ * A date without a time is due at the end of the day
+ * @param value The date text, e.g. '2026-05-01', '2026-05-01 17:00' or an ISO timestamp
+ * @returns The due date formatted for tasks, or null if it cannot be read
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const dateOnly = text.match(DATE_ONLY);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), 23, 59)
+    : new Date(/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}/.test(text) ? text.replace(' ', 'T') : text);
+  return isNaN(date.getTime()) ? null : formatDateTimeInput(date);
+};
+
+// Todoist priorities run from 1 (p1, highest) to 4 (p4, the default)
+const parseTodoistPriority = (value: string): TaskDto['urgency'] | null => {
+  switch (value.trim()) {
+    case '1':
+      return 'HIGH';
+    case '2':
+      return 'MEDIUM';
+    case '3':
+    case '4':
+      return 'LOW';
+    default:
+      return null;
+  }
+};
+
+const parseUrgency = (value: string): TaskDto['urgency'] | null => {
+  const upper = value.trim().toUpperCase();
+  return URGENCIES.find(urgency => urgency === upper || urgency[0] === upper) ?? null;
+};
+
+const parseBoolean = (value: string): boolean =>
+  ['true', 'yes', 'y', '1', 'x', 'done', 'completed'].includes(value.trim().toLowerCase());
+
+// Todoist keeps labels in the task content as @label
+const extractTodoistLabels = (content: string): { name: string; tags: string[] } => {
+  const tags: string[] = [];
+  const name = content.replace(/(^|\s)@([\w-]+)/g, (_, space: string, label: string) => {
+    tags.push(label.toLowerCase());
+    return space;
+  });
+  return { name: name.replace(/\s+/g, ' ').trim(), tags };
+};
+
+/**
+ * Turn the rows of a CSV file into tasks
+ * Todoist rows other than tasks are skipped, and indented Todoist tasks become
+ * checklist items of the task above them
+ * @param table The CSV header and rows
+ * @param mapping The column of each field
+ * @param format 'csv' or 'todoist'
+ * @returns The tasks to import; rows are numbered as in a spreadsheet, the header being row 1
+ */
+export const candidatesFromCsv = (table: CsvTable, mapping: ColumnMapping, format: 'csv' | 'todoist'): ImportCandidate[] => {
+  const candidates: ImportCandidate[] = [];
+  const upperHeaders = table.headers.map(header => header.toUpperCase());
+  const typeColumn = format === 'todoist' ? upperHeaders.indexOf('TYPE') : -1;
+  const indentColumn = format === 'todoist' ? upperHeaders.indexOf('INDENT') : -1;
+
+  table.rows.forEach((cells, index) => {
+    const row = index + 2;
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+
+    if (typeColumn !== -1 && (cells[typeColumn] || '').trim().toLowerCase() !== 'task') return;
+
+    let name = get('name');
+    let tags = get('tags') ? get('tags').split(/[;,]/).map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(tag => tag) : [];
+    if (format === 'todoist') {
+      const extracted = extractTodoistLabels(name);
+      name = extracted.name;
+      tags = [...tags, ...extracted.tags];
+    }
+
+    const parent = candidates[candidates.length - 1];
+    if (indentColumn !== -1 && Number(cells[indentColumn]) > 1 && parent && !parent.error) {
+      parent.task.subtasks = [...(parent.task.subtasks || []), { title: name, completed: false }];
+      return;
+    }
+
+    const candidate = createCandidate(row, {
+      name,
+      description: get('description'),
+      dueDate: '',
+      urgency: 'MEDIUM',
+      tags,
+      completed: mapping.completed !== null && parseBoolean(get('completed'))
+    });
+
+    if (!name) {
+      candidate.error = 'The task has no name';
+    }
+
+    const due = get('dueDate');
+    if (due) {
+      const dueDate = parseImportDate(due);
+      if (dueDate) {
+        candidate.task.dueDate = dueDate;
+        candidate.task.allDay = DATE_ONLY.test(due.trim());
+      } else if (format === 'todoist') {
+        // Todoist exports recurring and relative dates as text, such as "every monday"
+        candidate.warnings.push(`Due date "${due}" was left out`);
+      } else {
+        candidate.error = candidate.error || `Unknown due date "${due}"`;
+      }
+    }
+
+    const urgency = get('urgency');
+    if (urgency) {
+      const parsed = format === 'todoist' ? parseTodoistPriority(urgency) : parseUrgency(urgency);
+      if (parsed) {
+        candidate.task.urgency = parsed;
+      } else {
+        candidate.error = candidate.error || `Unknown urgency "${urgency}"`;
+      }
+    }
+
+    const estimate = get('estimateMinutes');
+    if (estimate) {
+      const minutes = Number(estimate);
+      if (Number.isFinite(minutes) && minutes > 0) {
+        candidate.task.estimateMinutes = Math.round(minutes);
+      } else {
+        candidate.warnings.push(`Estimate "${estimate}" was left out`);
+      }
+    }
+
+    candidates.push(candidate);
+  });
+
+  return candidates;
+};
+
+/**
+ * Read the tasks of a JSON export
+ * Fields set by the server are left out. The IDs belong to the exported tasks, dependencies
+ * between tasks of the file are restored with the new IDs once the tasks are created.
+ * @param text The JSON text, an export object or a plain list of tasks
+ * @returns The tasks to import; rows are the positions in the list, starting at 1
+ * @throws Error if the text is not a task export
+ */
+export const candidatesFromJson = (text: string): ImportCandidate[] => {
+  const data = JSON.parse(text);
+  const tasks: Partial<TaskDto>[] | undefined = Array.isArray(data) ? data : data?.tasks;
+  if (!Array.isArray(tasks)) {
+    throw new Error('The file does not contain a list of tasks');
+  }
+  const sourceIds = new Set(tasks.flatMap(task => task.id ? [task.id] : []));
+
+  return tasks.map((task, index) => {
+    const blockedBy = task.blockedBy || [];
+    const candidate = createCandidate(index + 1, {
+      name: (task.name || '').trim(),
+      description: task.description || '',
+      dueDate: '',
+      urgency: URGENCIES.includes(task.urgency as TaskDto['urgency']) ? task.urgency : 'MEDIUM',
+      importance: URGENCIES.includes(task.importance as TaskDto['urgency']) ? task.importance : undefined,
+      subtasks: (task.subtasks || []).map(({ title, completed }): SubtaskDto => ({ title, completed })),
+      recurrence: task.recurrence || null,
+      tags: task.tags || [],
+      projectId: task.projectId || null,
+      blockedBy: blockedBy.filter(id => sourceIds.has(id)),
+      reminders: task.reminders || [],
+      estimateMinutes: task.estimateMinutes ?? null,
+      completed: !!task.completed,
+      sourceId: task.id,
+      pomodoroTimeMillis: task.pomodoroTimeMillis,
+      focusedTimeMillis: task.focusedTimeMillis
+    });
+    if (!candidate.task.name) {
+      candidate.error = 'The task has no name';
+    }
+    if (task.dueDate) {
+      const dueDate = parseImportDate(task.dueDate);
+      if (dueDate) {
+        candidate.task.dueDate = dueDate;
+        candidate.task.allDay = task.allDay ?? DATE_ONLY.test(task.dueDate.trim());
+      } else {
+        candidate.error = candidate.error || `Unknown due date "${task.dueDate}"`;
+      }
+    }
+    if (candidate.task.blockedBy!.length < blockedBy.length) {
+      candidate.warnings.push('Dependencies on tasks outside the file were left out');
+    }
+    return candidate;
+  });
+};
+
+/**
+ * Read the tasks of a Markdown checklist
+ * Top-level checklist items become tasks, indented checklist items their checklist and
+ * other indented lines their description. "(due: 2026-05-01 17:00)", "!high" and "#tag"
+ * in an item are read as its due date, urgency and tags.
+ * @param text The Markdown text
+ * @returns The tasks to import; rows are line numbers
+ */
+export const candidatesFromMarkdown = (text: string): ImportCandidate[] => {
+  const candidates: ImportCandidate[] = [];
+  let current: ImportCandidate | null = null;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const item = line.match(/^(\s*)[-*+] \[([ xX])\] (.*)$/);
+    const indented = /^\s+\S/.test(line);
+
+    if (item && item[1].length === 0) {
+      let name = item[3];
+      const candidate = createCandidate(index + 1, {
+        name: '',
+        description: '',
+        dueDate: '',
+        urgency: 'MEDIUM',
+        subtasks: [],
+        tags: [],
+        completed: item[2] !== ' '
+      });
+
+      name = name.replace(/\(due:\s*([^)]+)\)/i, (_, due: string) => {
+        const dueDate = parseImportDate(due);
+        if (dueDate) {
+          candidate.task.dueDate = dueDate;
+          candidate.task.allDay = DATE_ONLY.test(due.trim());
+        } else {
+          candidate.warnings.push(`Due date "${due.trim()}" was left out`);
+        }
+        return '';
+      });
+      name = name.replace(/(^|\s)!(low|medium|high)\b/i, (_, space: string, urgency: string) => {
+        candidate.task.urgency = urgency.toUpperCase() as TaskDto['urgency'];
+        return space;
+      });
+      name = name.replace(/(^|\s)#([\w-]+)/g, (_, space: string, tag: string) => {
+        candidate.task.tags!.push(tag.toLowerCase());
+        return space;
+      });
+
+      candidate.task.name = name.replace(/\s+/g, ' ').trim();
+      if (!candidate.task.name) {
+        candidate.error = 'The task has no name';
+      }
+      candidates.push(candidate);
+      current = candidate;
+    } else if (item && current) {
+      current.task.subtasks!.push({ title: item[3].trim(), completed: item[2] !== ' ' });
+    } else if (current && (indented || line.trim() === '')) {
+      current.task.description = `${current.task.description}\n${line.replace(/^ {2}/, '')}`;
+    } else {
+      // Headings and other top-level text end the current task
+      current = null;
+    }
+  });
+
+  candidates.forEach(candidate => {
+    candidate.task.description = candidate.task.description!.trim();
+  });
+  return candidates;
+};
+
+// Tasks with the same name due on the same day count as the same task
+const getDuplicateKey = (task: { name: string; dueDate?: string }): string =>
+  `${task.name.trim().toLowerCase()}|${task.dueDate ? new Date(task.dueDate).toDateString() : ''}`;
+
+/**
+ * Flag tasks that already exist or appear earlier in the same file
+ * @param candidates The tasks to import
+ * @param existingTasks The tasks of the user
+ * @returns The tasks to import with their duplicate flags set
+ */
+export const markDuplicates = (candidates: ImportCandidate[], existingTasks: TaskDto[]): ImportCandidate[] => {
+  const seen = new Set(existingTasks.map(getDuplicateKey));
+  return candidates.map(candidate => {
+    if (candidate.error) return candidate;
+    const key = getDuplicateKey(candidate.task);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...candidate, duplicate };
+  });
+};
@@ -0,0 +1,525 @@
+/**
+ * Utility functions for the task search query language
+ *
+ * A query is a list of terms that all have to match, e.g.
+ * `urgency:high due:<7d shared:yes -completed "exact phrase" OR foo`
+ *
+ * - Words and "quoted phrases" match the task name and description
+ * - Fields: urgency:low|medium|high (also with <, <=, >, >=), due:today|overdue|week|none,
+ *   due:<7d (relative: h, d or w), due:>=2025-01-31, tag:name (or #name), project:name|none
+ *   and is:completed|blocked|overdue|shared|recurring
+ * - Flags can also be written as `completed:yes|no` or as a bare word (`completed`, `-blocked`)
+ * - `-term` or `NOT term` excludes, `OR` combines alternatives, parentheses group
+ *
+ * Terms next to each other bind tighter than OR, so `a b OR c` means `(a AND b) OR c`.
+ */
+import { type TaskDto } from '../types/models';
+import { normalizeTag } from './tags';
+import { type DueFilter, type TaskFilterState, matchesDueFilter } from './task-filters';
+
+export type QueryUrgency = TaskDto['urgency'];
+
+export type CompareOp = '<' | '<=' | '>' | '>=' | '=';
+
+export type TaskFlag = 'completed' | 'blocked' | 'overdue' | 'shared' | 'recurring';
+
+export type DueValue =
+  | { kind: 'keyword'; keyword: Exclude<DueFilter, 'ALL'> }
+  // Offset from the current time, may be negative
+  | { kind: 'relative'; hours: number }
+  // A calendar day as YYYY-MM-DD
+  | { kind: 'date'; date: string };
+
+export type TaskQueryNode =
+  | { type: 'and'; children: TaskQueryNode[] }
+  | { type: 'or'; children: TaskQueryNode[] }
+  | { type: 'not'; child: TaskQueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'urgency'; op: CompareOp; value: QueryUrgency }
+  | { type: 'due'; op: CompareOp; value: DueValue }
+  | { type: 'tag'; value: string }
+  // null matches tasks without a project
+  | { type: 'project'; projectId: string | null }
+  | { type: 'flag'; flag: TaskFlag };
+
+export interface TaskQueryError {
+  message: string;
+  // Position of the offending text in the input
+  start: number;
+  end: number;
+}
+
+export interface TaskQueryResult {
+  // null for an empty or invalid query
+  query: TaskQueryNode | null;
+  error: TaskQueryError | null;
+}
+
+export interface TaskQueryProject {
+  id: string;
+  name: string;
+}
+
+export interface TaskQueryOptions {
+  // Projects that can be referenced with project:name
+  projects?: TaskQueryProject[];
+}
+
+export interface TaskQueryContext {
+  // The current time, relative due dates are resolved against it
+  now: Date;
+  isBlocked: (task: TaskDto) => boolean;
+}
+
+export interface TaskQuerySuggestion {
+  // Text shown to the user
+  label: string;
+  description: string;
+  // The input with the last term replaced by the suggestion
+  value: string;
+}
+
+export const TASK_FLAGS: TaskFlag[] = ['completed', 'blocked', 'overdue', 'shared', 'recurring'];
+
+const URGENCIES: QueryUrgency[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const URGENCY_ALIASES: Record<string, QueryUrgency> = {
+  low: 'LOW', l: 'LOW',
+  medium: 'MEDIUM', med: 'MEDIUM', m: 'MEDIUM',
+  high: 'HIGH', h: 'HIGH', urgent: 'HIGH'
+};
+
+const DUE_KEYWORDS: Record<string, Exclude<DueFilter, 'ALL'>> = {
+  today: 'TODAY',
+  overdue: 'OVERDUE',
+  week: 'WEEK',
+  none: 'NO_DATE'
+};
+
+const HOURS_PER_UNIT: Record<string, number> = { h: 1, d: 24, w: 24 * 7 };
+
+// Fields offered by the autocomplete, with example values
+const QUERY_FIELDS: { key: string; description: string; values: string[] }[] = [
+  { key: 'urgency', description: 'Urgency, e.g. urgency:high or urgency:>=medium', values: ['low', 'medium', 'high', '>=medium'] },
+  { key: 'due', description: 'Due date, e.g. due:today or due:<7d', values: ['today', 'overdue', 'week', 'none', '<1d', '<7d', '>7d'] },
+  { key: 'tag', description: 'Tag, e.g. tag:work', values: [] },
+  { key: 'project', description: 'Project, e.g. project:home', values: ['none'] },
+  { key: 'is', description: 'Task state, e.g. is:blocked', values: TASK_FLAGS },
+  { key: 'shared', description: 'Shared with others or by others', values: ['yes', 'no'] },
+  { key: 'completed', description: 'Completion', values: ['yes', 'no'] },
+  { key: 'blocked', description: 'Waiting for other tasks', values: ['yes', 'no'] }
+];
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; start: number; end: number }
+  | { kind: 'text'; value: string; start: number; end: number }
+  | { kind: 'field'; key: string; value: string; start: number; end: number };
+
+// Thrown while tokenizing or parsing and turned into a TaskQueryError
+class QuerySyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+const OPERATOR_WORDS: Record<string, 'or' | 'and' | 'not'> = { OR: 'or', AND: 'and', NOT: 'not' };
+
+// Read a quoted string starting at the opening quote
+const readQuoted = (input: string, start: number): { value: string; end: number } => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Missing closing quote', start, input.length);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ kind: 'text', value, start: i, end });
+      i = end;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const word = input.slice(start, i);
+      const colon = word.indexOf(':');
+
+      if (OPERATOR_WORDS[word]) {
+        tokens.push({ kind: OPERATOR_WORDS[word], start, end: i });
+      } else if (colon > 0) {
+        let value = word.slice(colon + 1);
+        // key:"quoted value"
+        if (value === '' && input[i] === '"') {
+          const quoted = readQuoted(input, i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        tokens.push({ kind: 'field', key: word.slice(0, colon).toLowerCase(), value, start, end: i });
+      } else {
+        tokens.push({ kind: 'text', value: word, start, end: i });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Split a leading comparison operator off a field value
+const splitOperator = (value: string): { op: CompareOp; rest: string } => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  return { op: (match[1] as CompareOp) || '=', rest: match[2] };
+};
+
+const parseYesNo = (value: string, token: Token): boolean => {
+  const lower = value.toLowerCase();
+  if (['yes', 'y', 'true'].includes(lower)) return true;
+  if (['no', 'n', 'false'].includes(lower)) return false;
+  throw new QuerySyntaxError(`Expected yes or no, got "${value}"`, token.start, token.end);
+};
+
+const isValidDate = (date: string): boolean => {
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day;
+};
+
+const parseField = (token: Extract<Token, { kind: 'field' }>, options: TaskQueryOptions): TaskQueryNode => {
+  const { key, value } = token;
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, token.start, token.end);
+  };
+
+  if (value === '') fail(`Missing value for "${key}:"`);
+
+  switch (key) {
+    case 'urgency': {
+      const { op, rest } = splitOperator(value);
+      const urgency = URGENCY_ALIASES[rest.toLowerCase()];
+      if (!urgency) fail(`Unknown urgency "${rest}", use low, medium or high`);
+      return { type: 'urgency', op, value: urgency };
+    }
+    case 'due': {
+      const { op, rest } = splitOperator(value);
+      const lower = rest.toLowerCase();
+      if (DUE_KEYWORDS[lower]) {
+        if (op !== '=') fail(`"${rest}" cannot be compared, use due:${lower}`);
+        return { type: 'due', op, value: { kind: 'keyword', keyword: DUE_KEYWORDS[lower] } };
+      }
+      const relative = lower.match(/^([+-]?\d+)([hdw])$/);
+      if (relative) {
+        return { type: 'due', op, value: { kind: 'relative', hours: Number(relative[1]) * HOURS_PER_UNIT[relative[2]] } };
+      }
+      if (/^\d{4}-\d{2}-\d{2}$/.test(rest) && isValidDate(rest)) {
+        return { type: 'due', op, value: { kind: 'date', date: rest } };
+      }
+      return fail(`Unknown due date "${rest}", use today, overdue, week, none, 7d or YYYY-MM-DD`);
+    }
+    case 'tag': {
+      const tag = normalizeTag(value);
+      if (!tag) fail('Missing tag name');
+      return { type: 'tag', value: tag };
+    }
+    case 'project': {
+      if (value.toLowerCase() === 'none') return { type: 'project', projectId: null };
+      const project = (options.projects || []).find(p => normalizeTag(p.name) === normalizeTag(value));
+      if (!project) fail(`Unknown project "${value}"`);
+      return { type: 'project', projectId: project!.id };
+    }
+    case 'is': {
+      const flag = value.toLowerCase() as TaskFlag;
+      if (!TASK_FLAGS.includes(flag)) fail(`Unknown state "${value}", use ${TASK_FLAGS.join(', ')}`);
+      return { type: 'flag', flag };
+    }
+    default: {
+      if (TASK_FLAGS.includes(key as TaskFlag)) {
+        const node: TaskQueryNode = { type: 'flag', flag: key as TaskFlag };
+        return parseYesNo(value, token) ? node : { type: 'not', child: node };
+      }
+      return fail(`Unknown filter "${key}:"`);
+    }
+  }
+};
+
+// Recursive descent parser; OR has the lowest precedence, then AND, then NOT
+const parseTokens = (tokens: Token[], options: TaskQueryOptions, inputLength: number): TaskQueryNode => {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const combine = (type: 'and' | 'or', children: TaskQueryNode[]): TaskQueryNode =>
+    children.length === 1 ? children[0] : { type, children };
+
+  const missingTerm = (after: Token): never => {
+    const next = peek();
+    throw next
+      ? new QuerySyntaxError(`Expected a search term after "${after.kind === 'not' ? '-' : after.kind.toUpperCase()}"`, next.start, next.end)
+      : new QuerySyntaxError('Query ends too early', after.start, inputLength);
+  };
+
+  const startsTerm = (token: Token | undefined): boolean =>
+    !!token && (token.kind === 'text' || token.kind === 'field' || token.kind === 'not' || token.kind === 'lparen');
+
+  const parseOr = (): TaskQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[position++];
+      if (!startsTerm(peek())) missingTerm(operator);
+      children.push(parseAnd());
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): TaskQueryNode => {
+    const children = [parseUnary()];
+    while (startsTerm(peek()) || peek()?.kind === 'and') {
+      if (peek()!.kind === 'and') {
+        const operator = tokens[position++];
+        if (!startsTerm(peek())) missingTerm(operator);
+      }
+      children.push(parseUnary());
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): TaskQueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('Query ends too early', inputLength, inputLength);
+
+    switch (token.kind) {
+      case 'not':
+        position++;
+        if (!startsTerm(peek())) missingTerm(token);
+        return { type: 'not', child: parseUnary() };
+      case 'lparen': {
+        position++;
+        if (peek()?.kind === 'rparen') throw new QuerySyntaxError('Empty parentheses', token.start, peek()!.end);
+        const node = parseOr();
+        if (peek()?.kind !== 'rparen') throw new QuerySyntaxError('Missing closing parenthesis', token.start, token.end);
+        position++;
+        return node;
+      }
+      case 'text':
+        position++;
+        if (token.value.startsWith('#') && token.value.length > 1) {
+          return { type: 'tag', value: normalizeTag(token.value) };
+        }
+        // Bare flag names are a shorthand for is:flag, quote them to search for the word
+        if (TASK_FLAGS.includes(token.value as TaskFlag) && token.end - token.start === token.value.length) {
+          return { type: 'flag', flag: token.value as TaskFlag };
+        }
+        return { type: 'text', value: token.value.toLowerCase() };
+      case 'field':
+        position++;
+        return parseField(token, options);
+      case 'rparen':
+        throw new QuerySyntaxError('Unexpected closing parenthesis', token.start, token.end);
+      default:
+        throw new QuerySyntaxError(`"${token.kind.toUpperCase()}" needs a search term before it`, token.start, token.end);
+    }
+  };
+
+  const query = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new QuerySyntaxError('Unexpected closing parenthesis', rest.start, rest.end);
+  }
+  return query;
+};
+
+/**
+ * Parse a search query into a filter tree
+ * @param input The query as typed by the user
+ * @param options Projects that can be referenced by name
+ * @returns The filter tree, or the first syntax error
+ */
+export const parseTaskQuery = (input: string, options: TaskQueryOptions = {}): TaskQueryResult => {
+  try {
+    const tokens = tokenize(input);
+    if (tokens.length === 0) return { query: null, error: null };
+    return { query: parseTokens(tokens, options, input.length), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { query: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
+
+const compare = (a: number, b: number, op: CompareOp): boolean => {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '=': return a === b;
+  }
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const matchesDue = (task: TaskDto, op: CompareOp, value: DueValue, now: Date): boolean => {
+  if (value.kind === 'keyword') return matchesDueFilter(task, value.keyword, now);
+  if (!task.dueDate) return false;
+
+  const dueDate = new Date(task.dueDate);
+  if (value.kind === 'relative') {
+    const target = new Date(now.getTime() + value.hours * 60 * 60 * 1000);
+    // A relative day or week compares whole days, e.g. due:=1d is tomorrow
+    if (op === '=') return startOfDay(dueDate).getTime() === startOfDay(target).getTime();
+    return compare(dueDate.getTime(), target.getTime(), op);
+  }
+
+  // Compare calendar days, so due:<=2025-01-31 includes the whole 31st
+  const [year, month, day] = value.date.split('-').map(Number);
+  return compare(startOfDay(dueDate).getTime(), new Date(year, month - 1, day).getTime(), op);
+};
+
+const hasFlag = (task: TaskDto, flag: TaskFlag, context: TaskQueryContext): boolean => {
+  switch (flag) {
+    case 'completed':
+      return task.completed;
+    case 'blocked':
+      return context.isBlocked(task);
+    case 'overdue':
+      return !task.completed && matchesDueFilter(task, 'OVERDUE', context.now);
+    case 'shared':
+      return task.owner === false || task.visibility === 'SHARED' || (task.sharedWith?.length ?? 0) > 0;
+    case 'recurring':
+      return !!task.recurrence;
+  }
+};
+
+/**
+ * Check whether a task matches a filter tree
+ * @param query The filter tree
+ * @param task The task
+ * @param context The current time and dependency lookup
+ * @returns True if the task matches
+ */
+export const evaluateTaskQuery = (query: TaskQueryNode, task: TaskDto, context: TaskQueryContext): boolean => {
+  switch (query.type) {
+    case 'and':
+      return query.children.every(child => evaluateTaskQuery(child, task, context));
+    case 'or':
+      return query.children.some(child => evaluateTaskQuery(child, task, context));
+    case 'not':
+      return !evaluateTaskQuery(query.child, task, context);
+    case 'text':
+      return task.name.toLowerCase().includes(query.value) ||
+        (!!task.description && task.description.toLowerCase().includes(query.value));
+    case 'urgency':
+      return compare(URGENCIES.indexOf(task.urgency), URGENCIES.indexOf(query.value), query.op);
+    case 'due':
+      return matchesDue(task, query.op, query.value, context.now);
+    case 'tag':
+      return (task.tags || []).includes(query.value);
+    case 'project':
+      return (task.projectId || null) === query.projectId;
+    case 'flag':
+      return hasFlag(task, query.flag, context);
+  }
+};
+
+/**
+ * Combine filter trees so that all of them have to match
+ * @param queries The filter trees; nulls are skipped
+ * @returns The combined tree, or null if there is nothing to filter by
+ */
+export const combineQueries = (...queries: (TaskQueryNode | null)[]): TaskQueryNode | null => {
+  const children = queries.filter((query): query is TaskQueryNode => query !== null);
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type: 'and', children };
+};
+
+/**
+ * Build the filter tree for the filter panel settings
+ * The task type selects the task list and the search is parsed separately, so both are left out
+ * @param filters The filter state
+ * @param includeCompleted Whether completed tasks are shown, defaults to the filter state
+ * @returns The filter tree, or null if nothing is filtered
+ */
+export const filtersToTaskQuery = (
+  filters: TaskFilterState,
+  includeCompleted: boolean = filters.showCompleted
+): TaskQueryNode | null => {
+  const queries: TaskQueryNode[] = [];
+  const not = (child: TaskQueryNode): TaskQueryNode => ({ type: 'not', child });
+
+  if (!includeCompleted) queries.push(not({ type: 'flag', flag: 'completed' }));
+  if (filters.urgency !== 'ALL') queries.push({ type: 'urgency', op: '=', value: filters.urgency });
+  if (filters.due !== 'ALL') queries.push({ type: 'due', op: '=', value: { kind: 'keyword', keyword: filters.due } });
+  if (filters.project !== 'ALL') {
+    queries.push({ type: 'project', projectId: filters.project === 'NONE' ? null : filters.project });
+  }
+  if (filters.tags.length > 0) {
+    const tags: TaskQueryNode[] = filters.tags.map(tag => ({ type: 'tag', value: tag }));
+    queries.push(tags.length === 1 ? tags[0] : { type: filters.tagMatchMode === 'all' ? 'and' : 'or', children: tags });
+  }
+  // Only tasks that can be worked on right now
+  if (filters.actionableOnly) {
+    queries.push(not({ type: 'flag', flag: 'completed' }), not({ type: 'flag', flag: 'blocked' }));
+  }
+
+  return combineQueries(...queries);
+};
+
+// Quote values that would otherwise be split into several terms
+const quoteValue = (value: string): string => /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+/**
+ * Suggest completions for the term being typed at the end of a query
+ * @param input The query as typed so far
+ * @param options Tags and projects to suggest as values
+ * @returns Up to 8 suggestions for the last term
+ */
+export const getQuerySuggestions = (
+  input: string,
+  options: { tags?: string[]; projects?: TaskQueryProject[] } = {}
+): TaskQuerySuggestion[] => {
+  const match = input.match(/(^|[\s(])(-?)([^\s()"]*)$/)!;
+  const prefix = input.slice(0, input.length - match[2].length - match[3].length) + match[2];
+  const term = match[3];
+  if (!term) return [];
+
+  const colon = term.indexOf(':');
+  let suggestions: { label: string; description: string }[];
+
+  if (colon === -1) {
+    const lower = term.toLowerCase();
+    suggestions = QUERY_FIELDS
+      .filter(field => field.key.startsWith(lower) && field.key !== lower)
+      .map(field => ({ label: `${field.key}:`, description: field.description }));
+  } else {
+    const key = term.slice(0, colon).toLowerCase();
+    const partial = term.slice(colon + 1).toLowerCase();
+    const field = QUERY_FIELDS.find(f => f.key === key);
+    if (!field) return [];
+
+    let values = field.values;
+    if (key === 'tag') values = options.tags || [];
+    if (key === 'project') values = [...values, ...(options.projects || []).map(project => project.name)];
+
+    suggestions = values
+      .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .map(value => ({ label: `${key}:${quoteValue(value)}`, description: field.description }));
+  }
+
+  return suggestions.slice(0, 8).map(suggestion => ({
+    ...suggestion,
+    value: prefix + suggestion.label + (suggestion.label.endsWith(':') ? '' : ' ')
+  }));
+};
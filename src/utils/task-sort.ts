@@ -0,0 +1,153 @@
+/**
+ * Utility functions for sorting tasks and keeping a manual task order
+ */
+import { type TaskDto } from '../types/models';
+
+export type TaskSortKey = 'due' | 'urgency' | 'created' | 'updated' | 'name' | 'manual';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TaskSortState {
+  key: TaskSortKey;
+  direction: SortDirection;
+  // Breaks ties of the primary key; the manual order cannot be a secondary key
+  secondaryKey: Exclude<TaskSortKey, 'manual'> | 'none';
+  secondaryDirection: SortDirection;
+}
+
+export const TASK_SORT_KEYS: { title: string; value: TaskSortKey }[] = [
+  { title: 'Due date', value: 'due' },
+  { title: 'Urgency', value: 'urgency' },
+  { title: 'Created', value: 'created' },
+  { title: 'Updated', value: 'updated' },
+  { title: 'Name', value: 'name' },
+  { title: 'Manual', value: 'manual' }
+];
+
+// Closest due date first, as the task list has always been sorted
+export const DEFAULT_TASK_SORT: TaskSortState = {
+  key: 'due',
+  direction: 'asc',
+  secondaryKey: 'none',
+  secondaryDirection: 'asc'
+};
+
+const URGENCY_RANK: Record<TaskDto['urgency'], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+const toTime = (date: string | undefined): number => date ? new Date(date).getTime() : 0;
+
+// Compare two tasks by a key in ascending order
+const compareBy = (a: TaskDto, b: TaskDto, key: Exclude<TaskSortKey, 'manual'>): number => {
+  switch (key) {
+    case 'due':
+      return toTime(a.dueDate) - toTime(b.dueDate);
+    case 'urgency':
+      return URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency];
+    case 'created':
+      return toTime(a.createdAt) - toTime(b.createdAt);
+    case 'updated':
+      return toTime(a.updatedAt) - toTime(b.updatedAt);
+    case 'name':
+      return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+  }
+};
+
+// Tasks without a due date go last in both directions when sorting by due date
+const compareWithDirection = (
+  a: TaskDto,
+  b: TaskDto,
+  key: Exclude<TaskSortKey, 'manual'>,
+  direction: SortDirection
+): number => {
+  if (key === 'due' && (!a.dueDate || !b.dueDate)) {
+    return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+  }
+  const result = compareBy(a, b, key);
+  return direction === 'asc' ? result : -result;
+};
+
+/**
+ * Sort tasks
+ * @param tasks The tasks to sort, the array is not changed
+ * @param sort The sort settings
+ * @param manualOrder Task IDs in manual order; tasks not in it follow sorted by due date
+ * @returns The sorted tasks
+ */
+export const sortTasks = (tasks: TaskDto[], sort: TaskSortState, manualOrder: string[] = []): TaskDto[] => {
+  const positions = new Map(manualOrder.map((id, index) => [id, index]));
+
+  return [...tasks].sort((a, b) => {
+    let result: number;
+    if (sort.key === 'manual') {
+      const positionA = positions.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+      const positionB = positions.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+      result = positionA - positionB || compareWithDirection(a, b, 'due', 'asc');
+    } else {
+      result = compareWithDirection(a, b, sort.key, sort.direction);
+    }
+
+    if (result === 0 && sort.secondaryKey !== 'none') {
+      result = compareWithDirection(a, b, sort.secondaryKey, sort.secondaryDirection);
+    }
+    return result;
+  });
+};
+
+// Task fields the server sorts search pages by
+const SERVER_SORT_FIELDS: Record<Exclude<TaskSortKey, 'manual'>, string> = {
+  due: 'dueDate',
+  urgency: 'urgency',
+  created: 'createdAt',
+  updated: 'updatedAt',
+  name: 'name'
+};
+
+/**
+ * Get the sort parameters of a server-side search, so paged results arrive in order
+ * The manual order only exists in the browser and cannot be sorted by on the server
+ * @param sort The sort settings
+ * @returns e.g. ['dueDate,asc', 'name,desc'], empty for the manual order
+ */
+export const toServerSort = (sort: TaskSortState): string[] => {
+  if (sort.key === 'manual') return [];
+  const params = [`${SERVER_SORT_FIELDS[sort.key]},${sort.direction}`];
+  if (sort.secondaryKey !== 'none') {
+    params.push(`${SERVER_SORT_FIELDS[sort.secondaryKey]},${sort.secondaryDirection}`);
+  }
+  return params;
+};
+
+/**
+ * Move a task within the visible part of a manual order
+ * Tasks that are hidden by filters keep their positions; the visible tasks are
+ * rearranged within the places they already take up.
+ * @param order The current manual order of all tasks
+ * @param visibleIds The visible task IDs in their current order
+ * @param taskId The task to move
+ * @param toIndex The new index of the task among the visible tasks
+ * @returns The new manual order
+ */
+export const moveInOrder = (order: string[], visibleIds: string[], taskId: string, toIndex: number): string[] => {
+  const fromIndex = visibleIds.indexOf(taskId);
+  if (fromIndex === -1) return order;
+
+  const reordered = [...visibleIds];
+  reordered.splice(fromIndex, 1);
+  reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, taskId);
+
+  // Visible tasks that are not ordered yet are appended, in their current order
+  const visible = new Set(visibleIds);
+  const full = [...order, ...visibleIds.filter(id => !order.includes(id))];
+  let next = 0;
+  return full.map(id => visible.has(id) ? reordered[next++] : id);
+};
+
+/**
+ * Describe sort settings in a few words
+ * @param sort The sort settings
+ * @returns e.g. 'Due date ↑'
+ */
+export const describeSort = (sort: TaskSortState): string => {
+  const title = TASK_SORT_KEYS.find(key => key.value === sort.key)!.title;
+  return sort.key === 'manual' ? title : `${title} ${sort.direction === 'asc' ? '↑' : '↓'}`;
+};
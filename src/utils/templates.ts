@@ -0,0 +1,106 @@
+/**
+ * Utility functions for task templates and the variables in their text
+ */
+import { type CreateTaskDto, type TaskDto } from '../types/models';
+import { formatDateTimeInput } from './formatters';
+
+// Due date of a task created from a template, relative to the day it is created
+export interface TemplateDueOffset {
+  days: number;
+  // Time of day as 'HH:mm'; without one the task is due at the end of the day
+  time: string | null;
+}
+
+export interface TaskTemplate {
+  id: string;
+  // Shown in the template menu
+  title: string;
+  // Task name, may contain variables
+  namePattern: string;
+  // Task description, may contain variables
+  description: string;
+  urgency: TaskDto['urgency'];
+  dueOffset: TemplateDueOffset | null;
+  // Pomodoro length in minutes, or null to keep the default
+  pomodoroMinutes: number | null;
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: '{date}', description: 'Date of creation' },
+  { name: '{weekday}', description: 'Day of the week' },
+  { name: '{week}', description: 'ISO week number' },
+  { name: '{month}', description: 'Month name' },
+  { name: '{year}', description: 'Year' }
+];
+
+/**
+ * Get the ISO 8601 week number of a date
+ * Weeks start on Monday and week 1 is the week with the first Thursday of the year
+ * @param date The date
+ * @returns The week number, 1 to 53
+ */
+export const getIsoWeek = (date: Date): number => {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 3 - (thursday.getDay() + 6) % 7);
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  firstThursday.setDate(firstThursday.getDate() + 3 - (firstThursday.getDay() + 6) % 7);
+  return 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * Replace the template variables in a text
+ * Unknown variables are left as they are
+ * @param text The text with variables such as {date}
+ * @param now The time of creation
+ * @returns The expanded text
+ */
+export const expandTemplateVariables = (text: string, now: Date = new Date()): string => {
+  const values: Record<string, string> = {
+    date: now.toLocaleDateString(),
+    weekday: now.toLocaleDateString([], { weekday: 'long' }),
+    week: getIsoWeek(now).toString(),
+    month: now.toLocaleDateString([], { month: 'long' }),
+    year: now.getFullYear().toString()
+  };
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => values[name.toLowerCase()] ?? match);
+};
+
+/**
+ * Get the due date of a task created from a template
+ * @param offset The due offset of the template
+ * @param now The time of creation
+ * @returns The due date
+ */
+export const getTemplateDueDate = (offset: TemplateDueOffset, now: Date = new Date()): Date => {
+  const due = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset.days, 23, 59);
+  const match = offset.time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (match) {
+    due.setHours(Number(match[1]), Number(match[2]));
+  }
+  return due;
+};
+
+/**
+ * Describe a due offset in a few words
+ * @param offset The due offset, or null for none
+ * @returns e.g. '+2 days 17:00'
+ */
+export const describeDueOffset = (offset: TemplateDueOffset | null): string => {
+  if (!offset) return 'No due date';
+  const day = offset.days === 0 ? 'Today' : `+${offset.days} day${offset.days === 1 ? '' : 's'}`;
+  return offset.time ? `${day} ${offset.time}` : day;
+};
+
+/**
+ * Build the fields of a new task from a template
+ * @param template The template
+ * @param now The time of creation, used for the variables and the due date
+ * @returns The task fields, with the due date formatted for the task form
+ */
+export const buildTaskFromTemplate = (template: TaskTemplate, now: Date = new Date()): CreateTaskDto => ({
+  name: expandTemplateVariables(template.namePattern, now),
+  description: expandTemplateVariables(template.description, now),
+  urgency: template.urgency,
+  dueDate: template.dueOffset ? formatDateTimeInput(getTemplateDueDate(template.dueOffset, now)) : '',
+  allDay: !!template.dueOffset && !template.dueOffset.time
+});
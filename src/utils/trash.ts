@@ -0,0 +1,36 @@
+/**
+ * Utility functions for the trash, which keeps deleted tasks for a number of days
+ */
+import { type TaskDto } from '../types/models';
+
+export const TRASH_RETENTION_OPTIONS: { title: string; value: number }[] = [
+  { title: '7 days', value: 7 },
+  { title: '14 days', value: 14 },
+  { title: '30 days', value: 30 },
+  { title: '90 days', value: 90 }
+];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the time a trashed task is deleted for good
+ * @param task The trashed task
+ * @param retentionDays Days tasks are kept in the trash
+ * @returns The time in milliseconds, or null if the task is not in the trash
+ */
+export const getTrashExpiry = (task: TaskDto, retentionDays: number): number | null =>
+  task.deletedAt ? new Date(task.deletedAt).getTime() + retentionDays * DAY_MS : null;
+
+/**
+ * Get the number of days until a trashed task is deleted for good
+ * @param task The trashed task
+ * @param retentionDays Days tasks are kept in the trash
+ * @param now The current time
+ * @returns Whole days left, at least 0
+ */
+export const getDaysLeftInTrash = (task: TaskDto, retentionDays: number, now: Date = new Date()): number => {
+  const expiry = getTrashExpiry(task, retentionDays);
+  return expiry === null ? retentionDays : Math.max(0, Math.ceil((expiry - now.getTime()) / DAY_MS));
+};
@@ -0,0 +1,65 @@
+/**
+ * Utility functions for preferences kept in localStorage under the name of the user they belong to,
+ * so people sharing a browser do not see each other's settings
+ */
+
+/**
+ * A value stored in localStorage for each user, under '<prefix>:<username>'
+ */
+export interface UserStorageEntry<T> {
+  /**
+   * Read the value of a user
+   * @param username The user, null if nobody is signed in
+   * @returns The stored value, or the fallback if there is none, it cannot be read or nobody is signed in
+   */
+  read(username: string | null): T;
+  /**
+   * Store the value of a user; does nothing if nobody is signed in
+   * @param username The user, null if nobody is signed in
+   * @param value The value
+   */
+  write(username: string | null, value: T): void;
+}
+
+/**
+ * Read a JSON value from localStorage
+ * @param key The localStorage key
+ * @param fallback Returned if there is no value or it is not valid JSON
+ * @returns The stored value or the fallback
+ */
+export const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Create a localStorage entry kept for each user
+ * @param prefix The start of the key, e.g. 'savedViews'
+ * @param fallback Creates the value of a user without a stored value
+ * @returns The entry
+ */
+export const createUserStorageEntry = <T>(prefix: string, fallback: () => T): UserStorageEntry<T> => ({
+  read: (username) => username ? readJson(`${prefix}:${username}`, fallback()) : fallback(),
+  write: (username, value) => {
+    if (username) {
+      localStorage.setItem(`${prefix}:${username}`, JSON.stringify(value));
+    }
+  }
+});
+
+/**
+ * Switch state loaded per user to the current user
+ * Stores remember the user their state was loaded for, so loading again for the same user does nothing.
+ * @param state The state, with the user it was loaded for
+ * @param username The current user, null if nobody is signed in
+ * @returns True if the state belongs to another user and has to be loaded for this one
+ */
+export const switchLoadedUser = (state: { loadedFor: string | null }, username: string | null): boolean => {
+  if (state.loadedFor === username) return false;
+  state.loadedFor = username;
+  return true;
+};